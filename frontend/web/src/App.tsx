@@ -1,21 +1,412 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
 import { getContractReadOnly, getContractWithSigner } from "./contract";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import ProjectionTable from "./components/ProjectionTable";
+import PlanDetailModal from "./components/PlanDetailModal";
+import GoalSeekSummary from "./components/GoalSeekSummary";
+import PlanComparisonModal, { MAX_COMPARED_PLANS } from "./components/PlanComparisonModal";
+import MarketAssumptionsAdmin from "./components/MarketAssumptionsAdmin";
+import { RetirementPlan } from "./type/plan";
+import {
+  CashflowProjection,
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_RETIREMENT_AGE,
+  DEFAULT_RETURN_RATE,
+  ProjectionInputs,
+  SIMULATION_YEARS,
+  projectCashflows
+} from "./simulation/projection";
+import { STRATEGY_PRESETS, StrategyId, getStrategyPreset } from "./simulation/strategies";
+import { DEFAULT_GUARDRAILS } from "./simulation/guardrails";
+import { DEFAULT_VPW } from "./simulation/vpw";
+import { DEFAULT_BUCKETS, REFILL_RULES, REFILL_RULE_LABELS, RefillRule } from "./simulation/buckets";
+import { DEFAULT_RMD_START_AGE, EARLIEST_RMD_START_AGE } from "./simulation/rmd";
+import { AccountBalances, totalBalance } from "./simulation/accounts";
+import { AnnuityKind } from "./simulation/annuity";
+import { LongevityConfig, SEX_LABELS, Sex } from "./simulation/longevity";
+import { DEFAULT_SURVIVOR_SPENDING_SHARE, Household } from "./simulation/household";
+import { Pension } from "./simulation/pension";
+import { DEFAULT_GLIDE_PATHS, GLIDE_PATH_LABELS, GlidePath, GlidePathKind } from "./simulation/glidePath";
+import { DEFAULT_TARGET_CONFIDENCE } from "./simulation/goalSeek";
+import { DEFAULT_RETURN_MODELS, RETURN_MODEL_LABELS, ReturnModelKind } from "./simulation/returnGenerators";
+import {
+  BUILT_IN_PROFILES,
+  CapitalMarketProfile,
+  REFERENCE_ALLOCATION,
+  formatProfileVersion,
+  latestVersions,
+  parseProfiles,
+  portfolioExpectedReturn,
+  portfolioVolatility,
+  profileVersion,
+  withBuiltInProfiles
+} from "./simulation/capitalMarkets";
+import {
+  DEFAULT_SPENDING_PHASES,
+  LumpExpense,
+  SPENDING_PROFILE_KINDS,
+  SPENDING_PROFILE_LABELS,
+  SpendingPlan
+} from "./simulation/spendingProfile";
+import {
+  DEFAULT_HEALTHCARE_INFLATION,
+  DEFAULT_LTC_RISK,
+  DEFAULT_PREMIUM_AGE_GROWTH,
+  HealthcareConfig
+} from "./simulation/health";
+import {
+  DEFAULT_MEAN_REVERTING,
+  INFLATION_MODEL_LABELS,
+  InflationModel,
+  InflationModelKind
+} from "./simulation/inflation";
+import {
+  DEFAULT_FULL_RETIREMENT_AGE,
+  DEFAULT_LIFE_EXPECTANCY,
+  SocialSecurityConfig
+} from "./simulation/socialSecurity";
+import { WithdrawalStrategy } from "./simulation/withdrawal";
+import {
+  DEFAULT_SEED,
+  DEFAULT_TRIALS,
+  DEFAULT_VOLATILITY,
+  MonteCarloResult,
+  ReturnDistribution,
+  runMonteCarlo
+} from "./simulation/monteCarlo";
+import { formatCurrency, formatPercent } from "./format";
 import "./App.css";
 
-interface RetirementPlan {
-  id: string;
-  encryptedAssets: string;
-  retirementGoal: string;
-  withdrawalStrategy: string;
-  cashflowProjection: string;
-  timestamp: number;
-  owner: string;
-  status: "pending" | "active" | "archived";
-}
+const emptyPlanData = {
+  encryptedAssets: "",
+  retirementGoal: "",
+  strategyPreference: "conservative",
+  taxableAssets: "",
+  taxDeferredAssets: "",
+  rothAssets: "",
+  annualSpending: "",
+  spendingProfile: "flat",
+  goGoMultiplier: String(DEFAULT_SPENDING_PHASES.goGoMultiplier * 100),
+  slowGoAge: String(DEFAULT_SPENDING_PHASES.slowGoAge),
+  slowGoMultiplier: String(DEFAULT_SPENDING_PHASES.slowGoMultiplier * 100),
+  noGoAge: String(DEFAULT_SPENDING_PHASES.noGoAge),
+  noGoMultiplier: String(DEFAULT_SPENDING_PHASES.noGoMultiplier * 100),
+  lumpExpenses: "",
+  bequestTarget: "",
+  capitalMarketsId: BUILT_IN_PROFILES[0].id,
+  returnModel: "",
+  returnRate: String(DEFAULT_RETURN_RATE * 100),
+  inflationRate: String(DEFAULT_INFLATION_RATE * 100),
+  glidePathKind: "",
+  glideStartEquity: "",
+  glideEndEquity: "",
+  glideCash: "",
+  glideTransitionYears: "",
+  inflationModel: "fixed",
+  longevitySex: "",
+  longevitySpouseSex: "",
+  inflationVolatility: String(DEFAULT_MEAN_REVERTING.volatility * 100),
+  horizonYears: String(SIMULATION_YEARS),
+  retirementAge: String(DEFAULT_RETIREMENT_AGE),
+  rmdStartAge: String(DEFAULT_RMD_START_AGE),
+  lifeExpectancy: String(DEFAULT_LIFE_EXPECTANCY),
+  benefitPia: "",
+  benefitClaimAge: String(DEFAULT_FULL_RETIREMENT_AGE),
+  spousePia: "",
+  spouseAgeOffset: "0",
+  spouseClaimAge: String(DEFAULT_FULL_RETIREMENT_AGE),
+  householdType: "single",
+  spouseLifeExpectancy: String(DEFAULT_LIFE_EXPECTANCY),
+  survivorSpending: String(DEFAULT_SURVIVOR_SPENDING_SHARE * 100),
+  pensionAmount: "",
+  pensionSurvivorShare: "50",
+  pensionStartAge: "",
+  pensionCola: "0",
+  pensionLumpSum: "",
+  spousePensionAmount: "",
+  spousePensionSurvivorShare: "50",
+  spousePensionStartAge: "",
+  spousePensionCola: "0",
+  spousePensionLumpSum: "",
+  healthPremium: "",
+  healthcareInflation: String(DEFAULT_HEALTHCARE_INFLATION * 100),
+  ltcProbability: "0",
+  ltcAnnualCost: String(DEFAULT_LTC_RISK.annualCost),
+  ltcDurationYears: String(DEFAULT_LTC_RISK.averageDurationYears),
+  annuityAllocation: "0",
+  annuityKind: "spia",
+  annuityStartAge: "80",
+  capitalPreservationThreshold: String(DEFAULT_GUARDRAILS.capitalPreservationThreshold * 100),
+  prosperityThreshold: String(DEFAULT_GUARDRAILS.prosperityThreshold * 100),
+  inflationSkipThreshold: String(DEFAULT_GUARDRAILS.inflationSkipThreshold * 100),
+  guardrailAdjustment: String(DEFAULT_GUARDRAILS.adjustment * 100),
+  vpwStockAllocation: String(DEFAULT_VPW.stockAllocation * 100),
+  bucketCashYears: String(DEFAULT_BUCKETS.cashYears),
+  bucketBondYears: String(DEFAULT_BUCKETS.bondYears),
+  bucketRefillRule: DEFAULT_BUCKETS.refillRule as string
+};
+
+const parsePercent = (value: string, fallback: number) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? fallback : parsed / 100;
+};
+
+// Builds the withdrawal strategy config for the selected preset
+const buildWithdrawalStrategy = (data: typeof emptyPlanData): WithdrawalStrategy => {
+  if (data.strategyPreference === "guardrails") {
+    return {
+      kind: "guardrails",
+      ...DEFAULT_GUARDRAILS,
+      capitalPreservationThreshold: parsePercent(data.capitalPreservationThreshold, DEFAULT_GUARDRAILS.capitalPreservationThreshold),
+      prosperityThreshold: parsePercent(data.prosperityThreshold, DEFAULT_GUARDRAILS.prosperityThreshold),
+      inflationSkipThreshold: parsePercent(data.inflationSkipThreshold, DEFAULT_GUARDRAILS.inflationSkipThreshold),
+      adjustment: parsePercent(data.guardrailAdjustment, DEFAULT_GUARDRAILS.adjustment)
+    };
+  }
+  if (data.strategyPreference === "vpw") {
+    return {
+      kind: "vpw",
+      ...DEFAULT_VPW,
+      stockAllocation: Math.min(1, Math.max(0, parsePercent(data.vpwStockAllocation, DEFAULT_VPW.stockAllocation)))
+    };
+  }
+  if (data.strategyPreference === "bucket") {
+    const cashYears = parseFloat(data.bucketCashYears);
+    const bondYears = parseFloat(data.bucketBondYears);
+    return {
+      kind: "bucket",
+      cashYears: isNaN(cashYears) ? DEFAULT_BUCKETS.cashYears : Math.max(0, cashYears),
+      bondYears: isNaN(bondYears) ? DEFAULT_BUCKETS.bondYears : Math.max(0, bondYears),
+      refillRule: data.bucketRefillRule as RefillRule
+    };
+  }
+  return getStrategyPreset(data.strategyPreference).strategy;
+};
+
+const buildInflationModel = (data: typeof emptyPlanData): InflationModel => {
+  if (data.inflationModel === "meanReverting") {
+    return {
+      kind: "meanReverting",
+      ...DEFAULT_MEAN_REVERTING,
+      volatility: Math.max(0, parsePercent(data.inflationVolatility, DEFAULT_MEAN_REVERTING.volatility))
+    };
+  }
+  return { kind: data.inflationModel === "historical" ? "historical" : "fixed" };
+};
+
+// Social Security for the plan owner and, when a spouse PIA is given, their spouse
+// Couples draw the spouse's lifetime from the other table unless one is chosen
+const buildLongevity = (data: typeof emptyPlanData): LongevityConfig | undefined => {
+  if (!data.longevitySex) return undefined;
+  const spouseSex = data.householdType === "couple" && data.longevitySpouseSex ? data.longevitySpouseSex as Sex : undefined;
+  return { sex: data.longevitySex as Sex, spouseSex };
+};
+
+const buildSocialSecurity = (data: typeof emptyPlanData): SocialSecurityConfig | undefined => {
+  const pia = parseFloat(data.benefitPia) || 0;
+  const spousePia = data.householdType === "couple" ? parseFloat(data.spousePia) || 0 : 0;
+  if (pia <= 0 && spousePia <= 0) return undefined;
+
+  const lifeExpectancy = parseInt(data.lifeExpectancy, 10) || DEFAULT_LIFE_EXPECTANCY;
+  return {
+    primary: {
+      pia,
+      fullRetirementAge: DEFAULT_FULL_RETIREMENT_AGE,
+      claimAge: parseInt(data.benefitClaimAge, 10) || DEFAULT_FULL_RETIREMENT_AGE,
+      lifeExpectancy
+    },
+    spouse: spousePia > 0 ? {
+      pia: spousePia,
+      fullRetirementAge: DEFAULT_FULL_RETIREMENT_AGE,
+      claimAge: parseInt(data.spouseClaimAge, 10) || DEFAULT_FULL_RETIREMENT_AGE,
+      lifeExpectancy: parseInt(data.spouseLifeExpectancy, 10) || DEFAULT_LIFE_EXPECTANCY,
+      ageOffset: parseInt(data.spouseAgeOffset, 10) || 0
+    } : undefined
+  };
+};
+
+const buildHousehold = (data: typeof emptyPlanData): Household | undefined => {
+  if (data.householdType !== "couple") return undefined;
+  return {
+    spouseAgeOffset: parseInt(data.spouseAgeOffset, 10) || 0,
+    lifeExpectancy: {
+      primary: parseInt(data.lifeExpectancy, 10) || DEFAULT_LIFE_EXPECTANCY,
+      spouse: parseInt(data.spouseLifeExpectancy, 10) || DEFAULT_LIFE_EXPECTANCY
+    },
+    survivorSpendingShare: Math.min(1, Math.max(0, parsePercent(data.survivorSpending, DEFAULT_SURVIVOR_SPENDING_SHARE)))
+  };
+};
+
+const buildPensions = (data: typeof emptyPlanData): Pension[] | undefined => {
+  const pensions: Pension[] = [];
+  const addPension = (
+    owner: Pension["owner"],
+    { amount, startAge, cola, survivorShare, lumpSum }: Record<string, string>
+  ) => {
+    const annualAmount = parseFloat(amount) || 0;
+    if (annualAmount <= 0) return;
+    pensions.push({
+      owner,
+      annualAmount,
+      startAge: parseInt(startAge, 10) || undefined,
+      cola: Math.max(0, parsePercent(cola, 0)),
+      survivorShare: Math.min(1, Math.max(0, parsePercent(survivorShare, 0))),
+      lumpSumOffer: parseFloat(lumpSum) || undefined
+    });
+  };
+  addPension("primary", {
+    amount: data.pensionAmount,
+    startAge: data.pensionStartAge,
+    cola: data.pensionCola,
+    survivorShare: data.pensionSurvivorShare,
+    lumpSum: data.pensionLumpSum
+  });
+  if (data.householdType === "couple") {
+    addPension("spouse", {
+      amount: data.spousePensionAmount,
+      startAge: data.spousePensionStartAge,
+      cola: data.spousePensionCola,
+      survivorShare: data.spousePensionSurvivorShare,
+      lumpSum: data.spousePensionLumpSum
+    });
+  }
+  return pensions.length > 0 ? pensions : undefined;
+};
+
+// Blank glide path fields fall back to the selected path's defaults
+const buildGlidePath = (data: typeof emptyPlanData): GlidePath | undefined => {
+  if (!data.glidePathKind) return undefined;
+  const defaults = DEFAULT_GLIDE_PATHS[data.glidePathKind as GlidePathKind];
+  const share = (value: string, fallback: number) => Math.min(1, Math.max(0, parsePercent(value, fallback)));
+  const startEquity = share(data.glideStartEquity, defaults.startEquity);
+  return {
+    kind: defaults.kind,
+    startEquity,
+    endEquity: defaults.kind === "static" ? startEquity : share(data.glideEndEquity, defaults.endEquity),
+    cashShare: share(data.glideCash, defaults.cashShare),
+    transitionYears: Math.max(0, parseInt(data.glideTransitionYears, 10) || defaults.transitionYears)
+  };
+};
+
+// Parses "age:amount" pairs separated by commas, e.g. "70:40000, 78:25000"
+const parseLumpExpenses = (text: string): LumpExpense[] => {
+  const expenses: LumpExpense[] = [];
+  for (const entry of text.split(",")) {
+    const [age, amount] = entry.split(":").map(part => parseFloat(part));
+    if (!isNaN(age) && amount > 0) {
+      expenses.push({ age: Math.round(age), amount });
+    }
+  }
+  return expenses;
+};
+
+// Flat spending with no one-off expenses or bequest needs no spending plan
+const buildSpendingPlan = (data: typeof emptyPlanData): SpendingPlan | undefined => {
+  const lumpExpenses = parseLumpExpenses(data.lumpExpenses);
+  const bequestTarget = Math.max(0, parseFloat(data.bequestTarget) || 0);
+  if (data.spendingProfile === "flat" && lumpExpenses.length === 0 && bequestTarget === 0) return undefined;
+
+  const multiplier = (value: string, fallback: number) => Math.max(0, parsePercent(value, fallback));
+  const profile: SpendingPlan["profile"] = data.spendingProfile === "phased"
+    ? {
+        kind: "phased",
+        goGoMultiplier: multiplier(data.goGoMultiplier, DEFAULT_SPENDING_PHASES.goGoMultiplier),
+        slowGoAge: parseInt(data.slowGoAge, 10) || DEFAULT_SPENDING_PHASES.slowGoAge,
+        slowGoMultiplier: multiplier(data.slowGoMultiplier, DEFAULT_SPENDING_PHASES.slowGoMultiplier),
+        noGoAge: parseInt(data.noGoAge, 10) || DEFAULT_SPENDING_PHASES.noGoAge,
+        noGoMultiplier: multiplier(data.noGoMultiplier, DEFAULT_SPENDING_PHASES.noGoMultiplier)
+      }
+    : { kind: data.spendingProfile === "smile" ? "smile" : "flat" };
+  return { profile, lumpExpenses, bequestTarget };
+};
+
+// Health costs apply when the plan has premiums or a long-term-care risk
+const buildHealthcare = (data: typeof emptyPlanData): HealthcareConfig | undefined => {
+  const annualPremium = parseFloat(data.healthPremium) || 0;
+  const ltcProbability = Math.min(1, Math.max(0, parsePercent(data.ltcProbability, 0)));
+  if (annualPremium <= 0 && ltcProbability <= 0) return undefined;
+
+  return {
+    annualPremium,
+    premiumAgeGrowth: DEFAULT_PREMIUM_AGE_GROWTH,
+    healthcareInflation: parsePercent(data.healthcareInflation, DEFAULT_HEALTHCARE_INFLATION),
+    ltc: ltcProbability > 0 ? {
+      ...DEFAULT_LTC_RISK,
+      probability: ltcProbability,
+      annualCost: parseFloat(data.ltcAnnualCost) || DEFAULT_LTC_RISK.annualCost,
+      averageDurationYears: Math.max(1, parseFloat(data.ltcDurationYears) || DEFAULT_LTC_RISK.averageDurationYears)
+    } : undefined
+  };
+};
+
+// Converts the create-plan form (percent strings) into projection inputs. The
+// plan keeps a copy of the selected profile version, so later edits to the
+// profile do not change it.
+const buildProjectionInputs = (data: typeof emptyPlanData, profiles: CapitalMarketProfile[]): ProjectionInputs => {
+  const accounts: AccountBalances = {
+    taxable: parseFloat(data.taxableAssets) || 0,
+    taxDeferred: parseFloat(data.taxDeferredAssets) || 0,
+    roth: parseFloat(data.rothAssets) || 0
+  };
+  const startingAssets = totalBalance(accounts);
+  const annuityAllocation = Math.min(1, Math.max(0, parsePercent(data.annuityAllocation, 0)));
+  const startAge = parseInt(data.retirementAge, 10) || DEFAULT_RETIREMENT_AGE;
+  const annualSpending = parseFloat(data.annualSpending) ||
+    startingAssets * getStrategyPreset(data.strategyPreference).withdrawalRate;
+
+  return {
+    startingAssets,
+    annualSpending,
+    returnRate: (parseFloat(data.returnRate) || 0) / 100,
+    inflationRate: (parseFloat(data.inflationRate) || 0) / 100,
+    inflationModel: buildInflationModel(data),
+    longevity: buildLongevity(data),
+    horizonYears: parseInt(data.horizonYears, 10) || SIMULATION_YEARS,
+    startAge,
+    strategy: buildWithdrawalStrategy(data),
+    glidePath: buildGlidePath(data),
+    accounts,
+    rmd: accounts.taxDeferred > 0
+      ? {
+          startAge: Math.max(EARLIEST_RMD_START_AGE, parseInt(data.rmdStartAge, 10) || DEFAULT_RMD_START_AGE),
+          taxDeferredShare: accounts.taxDeferred / startingAssets
+        }
+      : undefined,
+    socialSecurity: buildSocialSecurity(data),
+    pensions: buildPensions(data),
+    household: buildHousehold(data),
+    healthcare: buildHealthcare(data),
+    spending: buildSpendingPlan(data),
+    capitalMarkets: latestVersions(profiles).find(profile => profile.id === data.capitalMarketsId),
+    returnModel: data.returnModel ? DEFAULT_RETURN_MODELS[data.returnModel as ReturnModelKind] : undefined,
+    annuity: annuityAllocation > 0
+      ? {
+          kind: data.annuityKind as AnnuityKind,
+          allocation: annuityAllocation,
+          incomeStartAge: data.annuityKind === "dia" ? parseInt(data.annuityStartAge, 10) || startAge : startAge
+        }
+      : undefined
+  };
+};
+
+// Reference portfolio used to compare strategies on the Strategies tab
+const STRATEGY_COMPARISON_ASSETS = 1000000;
+
+// Edited capital-market profiles are kept in the browser; the JSON file
+// supplies the built-in ones, including any added since they were stored
+const PROFILES_STORAGE_KEY = "capitalMarketProfiles";
+
+const loadMarketProfiles = (): CapitalMarketProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? withBuiltInProfiles(parseProfiles(JSON.parse(stored))) : BUILT_IN_PROFILES;
+  } catch {
+    return BUILT_IN_PROFILES;
+  }
+};
 
 const App: React.FC = () => {
   // State management
@@ -32,13 +423,20 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newPlanData, setNewPlanData] = useState({
-    encryptedAssets: "",
-    retirementGoal: "",
-    strategyPreference: "conservative"
-  });
+  const [newPlanData, setNewPlanData] = useState(emptyPlanData);
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
+  const [detailPlan, setDetailPlan] = useState<RetirementPlan | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
   const [activeTab, setActiveTab] = useState("dashboard");
   const [searchTerm, setSearchTerm] = useState("");
+  const [simulationSeed, setSimulationSeed] = useState(DEFAULT_SEED);
+  const [simulationTrials, setSimulationTrials] = useState(DEFAULT_TRIALS);
+  const [targetConfidence, setTargetConfidence] = useState(DEFAULT_TARGET_CONFIDENCE * 100);
+  const [marketProfiles, setMarketProfiles] = useState(loadMarketProfiles);
+  const [strategyProfileId, setStrategyProfileId] = useState(BUILT_IN_PROFILES[0].id);
+  const [returnModelKind, setReturnModelKind] = useState<ReturnModelKind | "">("");
 
   // Randomly selected styles
   const colorScheme = "gradient (warm sunset)";
@@ -50,6 +448,48 @@ const App: React.FC = () => {
   const activePlans = plans.filter(p => p.status === "active").length;
   const archivedPlans = plans.filter(p => p.status === "archived").length;
 
+  useEffect(() => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify({ profiles: marketProfiles }));
+  }, [marketProfiles]);
+
+  const strategyProfile = useMemo(() => {
+    const latest = latestVersions(marketProfiles);
+    return latest.find(profile => profile.id === strategyProfileId) ?? latest[0];
+  }, [marketProfiles, strategyProfileId]);
+
+  // The strategies tab assumes the reference mix under the selected profile
+  const strategyDistribution = useMemo((): ReturnDistribution => ({
+    type: "lognormal",
+    mean: strategyProfile ? portfolioExpectedReturn(strategyProfile, REFERENCE_ALLOCATION) : DEFAULT_RETURN_RATE,
+    volatility: strategyProfile ? portfolioVolatility(strategyProfile, REFERENCE_ALLOCATION) : DEFAULT_VOLATILITY
+  }), [strategyProfile]);
+
+  // Monte Carlo results for each strategy preset, recomputed when seed, trials
+  // or the capital-market profile change
+  const strategySimulations = useMemo(() => {
+    const results = {} as Record<StrategyId, MonteCarloResult>;
+    for (const preset of Object.values(STRATEGY_PRESETS)) {
+      results[preset.id] = runMonteCarlo(
+        {
+          startingAssets: STRATEGY_COMPARISON_ASSETS,
+          annualSpending: STRATEGY_COMPARISON_ASSETS * preset.withdrawalRate,
+          returnRate: strategyDistribution.mean,
+          inflationRate: DEFAULT_INFLATION_RATE,
+          horizonYears: SIMULATION_YEARS,
+          strategy: preset.strategy,
+          capitalMarkets: strategyProfile
+        },
+        {
+          trials: simulationTrials,
+          seed: simulationSeed,
+          distribution: strategyDistribution,
+          returnModel: returnModelKind ? DEFAULT_RETURN_MODELS[returnModelKind] : undefined
+        }
+      );
+    }
+    return results;
+  }, [simulationSeed, simulationTrials, strategyProfile, strategyDistribution, returnModelKind]);
+
   // Filter plans based on search term
   const filteredPlans = plans.filter(plan => 
     plan.retirementGoal.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -122,6 +562,7 @@ const App: React.FC = () => {
                 retirementGoal: planData.retirementGoal,
                 withdrawalStrategy: planData.withdrawalStrategy,
                 cashflowProjection: planData.cashflowProjection,
+                assumptions: planData.assumptions,
                 timestamp: planData.timestamp,
                 owner: planData.owner,
                 status: planData.status || "pending"
@@ -169,27 +610,16 @@ const App: React.FC = () => {
       
       const planId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
-      // Generate simulated cashflow projection based on strategy
-      let cashflowProjection = "";
-      switch(newPlanData.strategyPreference) {
-        case "conservative":
-          cashflowProjection = "Stable 3-4% withdrawal with inflation adjustment";
-          break;
-        case "moderate":
-          cashflowProjection = "Variable 4-5% withdrawal with market adjustments";
-          break;
-        case "aggressive":
-          cashflowProjection = "Dynamic 5-6% withdrawal with higher volatility";
-          break;
-        default:
-          cashflowProjection = "Custom withdrawal strategy";
-      }
+      // Project year-by-year cashflows from the plan assumptions
+      const assumptions = buildProjectionInputs(newPlanData, marketProfiles);
+      const cashflowProjection = projectCashflows(assumptions);
 
       const planData = {
         encryptedAssets: encryptedData,
         retirementGoal: newPlanData.retirementGoal,
         withdrawalStrategy: newPlanData.strategyPreference,
         cashflowProjection: cashflowProjection,
+        assumptions: assumptions,
         timestamp: Math.floor(Date.now() / 1000),
         owner: account,
         status: "active"
@@ -230,11 +660,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewPlanData({
-          encryptedAssets: "",
-          retirementGoal: "",
-          strategyPreference: "conservative"
-        });
+        setNewPlanData(emptyPlanData);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
@@ -318,6 +744,17 @@ const App: React.FC = () => {
     return account.toLowerCase() === address.toLowerCase();
   };
 
+  const toggleCompareMode = () => {
+    setCompareMode(!compareMode);
+    setCompareIds([]);
+  };
+
+  const toggleCompared = (planId: string) => {
+    setCompareIds(compareIds.includes(planId)
+      ? compareIds.filter(id => id !== planId)
+      : [...compareIds, planId].slice(0, MAX_COMPARED_PLANS));
+  };
+
   const tutorialSteps = [
     {
       title: "Connect Wallet",
@@ -367,6 +804,21 @@ const App: React.FC = () => {
         description = "Higher withdrawals with more volatility";
         icon = "🚀";
         break;
+      case "guardrails":
+        title = "Guardrails Strategy";
+        description = "Spending cuts and raises when markets move";
+        icon = "🚧";
+        break;
+      case "vpw":
+        title = "Variable Percentage Strategy";
+        description = "Withdrawal rate recalculated each year to use the portfolio by the end age";
+        icon = "📐";
+        break;
+      case "bucket":
+        title = "Bucket Strategy";
+        description = "Years of spending in cash, backed by bond and equity buckets";
+        icon = "🪣";
+        break;
       default:
         title = "Custom Strategy";
         description = "Tailored to your specific needs";
@@ -381,6 +833,45 @@ const App: React.FC = () => {
     );
   };
 
+  const renderProjectionSummary = (projection: CashflowProjection | string) => {
+    if (typeof projection === "string") return projection;
+    
+    if (projection.depletionYear !== null) {
+      return `Assets depleted in year ${projection.depletionYear}`;
+    }
+    if (projection.bequestShortfall > 0) {
+      return `Lasts ${projection.years.length} years, ${formatCurrency(projection.bequestShortfall)} short of the bequest target`;
+    }
+    return `Lasts ${projection.years.length} years, ending with ${formatCurrency(projection.endingBalance)}`;
+  };
+
+  const renderSimulationStats = (strategy: StrategyId) => {
+    const result = strategySimulations[strategy];
+    
+    return (
+      <div className="strategy-stats">
+        <div className="stat">
+          <label>Success Rate:</label>
+          <span>{formatPercent(result.successProbability)}</span>
+        </div>
+        <div className="stat">
+          <label>Median Ending:</label>
+          <span>{formatCurrency(result.endingBalancePercentiles[50])}</span>
+        </div>
+        <div className="stat">
+          <label>10th–90th Pct:</label>
+          <span>
+            {formatCurrency(result.endingBalancePercentiles[10])} – {formatCurrency(result.endingBalancePercentiles[90])}
+          </span>
+        </div>
+        <div className="stat">
+          <label>Median Depletion:</label>
+          <span>{result.medianDepletionYear !== null ? `Year ${result.medianDepletionYear}` : "Never"}</span>
+        </div>
+      </div>
+    );
+  };
+
   if (loading) return (
     <div className="loading-screen">
       <div className="spinner"></div>
@@ -428,6 +919,12 @@ const App: React.FC = () => {
           >
             Strategies
           </button>
+          <button 
+            className={`tab-button ${activeTab === "assumptions" ? "active" : ""}`}
+            onClick={() => setActiveTab("assumptions")}
+          >
+            Assumptions
+          </button>
           <button 
             className={`tab-button ${activeTab === "tutorial" ? "active" : ""}`}
             onClick={() => setActiveTab("tutorial")}
@@ -476,6 +973,9 @@ const App: React.FC = () => {
                 {renderStrategyCard("conservative")}
                 {renderStrategyCard("moderate")}
                 {renderStrategyCard("aggressive")}
+                {renderStrategyCard("guardrails")}
+                {renderStrategyCard("vpw")}
+                {renderStrategyCard("bucket")}
               </div>
             </div>
           </div>
@@ -493,6 +993,16 @@ const App: React.FC = () => {
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                 />
+                <label className="target-confidence">
+                  Target success (%)
+                  <input
+                    type="number"
+                    min={50}
+                    max={99}
+                    value={targetConfidence}
+                    onChange={(e) => setTargetConfidence(Math.min(99, Math.max(50, parseFloat(e.target.value) || 0)))}
+                  />
+                </label>
                 <button 
                   onClick={loadPlans}
                   className="refresh-btn"
@@ -500,6 +1010,22 @@ const App: React.FC = () => {
                 >
                   {isRefreshing ? "Refreshing..." : "Refresh"}
                 </button>
+                <button 
+                  className="refresh-btn"
+                  onClick={toggleCompareMode}
+                >
+                  {compareMode ? "Cancel Compare" : "Compare"}
+                </button>
+                {compareMode && (
+                  <button 
+                    className="create-plan-btn"
+                    onClick={() => setShowComparison(true)}
+                    disabled={compareIds.length < 1}
+                    title={`Compare two to ${MAX_COMPARED_PLANS} plans and what-if variants; a single plan needs a what-if`}
+                  >
+                    Compare ({compareIds.length})
+                  </button>
+                )}
                 <button 
                   className="create-plan-btn"
                   onClick={() => setShowCreateModal(true)}
@@ -525,6 +1051,15 @@ const App: React.FC = () => {
                 filteredPlans.map(plan => (
                   <div className="plan-card" key={plan.id}>
                     <div className="plan-header">
+                      {compareMode && plan.assumptions && (
+                        <input
+                          type="checkbox"
+                          className="compare-select"
+                          checked={compareIds.includes(plan.id)}
+                          disabled={!compareIds.includes(plan.id) && compareIds.length >= MAX_COMPARED_PLANS}
+                          onChange={() => toggleCompared(plan.id)}
+                        />
+                      )}
                       <h3>{plan.retirementGoal}</h3>
                       <span className={`status-badge ${plan.status}`}>
                         {plan.status}
@@ -537,14 +1072,36 @@ const App: React.FC = () => {
                       </div>
                       <div className="detail-item">
                         <label>Projection:</label>
-                        <span>{plan.cashflowProjection}</span>
+                        <span>{renderProjectionSummary(plan.cashflowProjection)}</span>
                       </div>
+                      {plan.assumptions && (
+                        <GoalSeekSummary assumptions={plan.assumptions} targetConfidence={targetConfidence / 100} />
+                      )}
                       <div className="detail-item">
                         <label>Created:</label>
                         <span>{new Date(plan.timestamp * 1000).toLocaleDateString()}</span>
                       </div>
                     </div>
+                    {typeof plan.cashflowProjection !== "string" && expandedPlanId === plan.id && (
+                      <ProjectionTable projection={plan.cashflowProjection} />
+                    )}
                     <div className="plan-actions">
+                      {typeof plan.cashflowProjection !== "string" && (
+                        <button 
+                          className="action-btn"
+                          onClick={() => setExpandedPlanId(expandedPlanId === plan.id ? null : plan.id)}
+                        >
+                          {expandedPlanId === plan.id ? "Hide Cashflows" : "Show Cashflows"}
+                        </button>
+                      )}
+                      {plan.assumptions && (
+                        <button 
+                          className="action-btn"
+                          onClick={() => setDetailPlan(plan)}
+                        >
+                          Details
+                        </button>
+                      )}
                       {isOwner(plan.owner) && plan.status === "active" && (
                         <button 
                           className="action-btn archive"
@@ -565,61 +1122,110 @@ const App: React.FC = () => {
           <div className="strategies-section">
             <h2>Withdrawal Strategy Options</h2>
             <p className="section-description">
-              These strategies are simulated using your encrypted financial data without decryption
+              Monte Carlo results for a {formatCurrency(STRATEGY_COMPARISON_ASSETS)} portfolio over {SIMULATION_YEARS} years
+              ({formatPercent(strategyDistribution.mean)} mean return, {formatPercent(strategyDistribution.volatility)} volatility,
+              {" "}{formatPercent(DEFAULT_INFLATION_RATE)} inflation
+              {strategyProfile && `, ${formatProfileVersion(profileVersion(strategyProfile))} on a 60/35/5 mix`})
+              {returnModelKind === "bootstrap" && "; returns resample blocks of historical years, shifted to the same mean"}
+              {returnModelKind === "studentT" && "; returns have fat Student-t tails"}
             </p>
             
+            <div className="simulation-controls">
+              <label>
+                Seed
+                <input
+                  type="number"
+                  value={simulationSeed}
+                  onChange={(e) => setSimulationSeed(parseInt(e.target.value, 10) || 0)}
+                />
+              </label>
+              <label>
+                Trials
+                <select
+                  value={simulationTrials}
+                  onChange={(e) => setSimulationTrials(parseInt(e.target.value, 10))}
+                >
+                  <option value={500}>500</option>
+                  <option value={1000}>1,000</option>
+                  <option value={5000}>5,000</option>
+                </select>
+              </label>
+              <label>
+                Assumptions
+                <select
+                  value={strategyProfile?.id}
+                  onChange={(e) => setStrategyProfileId(e.target.value)}
+                >
+                  {latestVersions(marketProfiles).map(profile => (
+                    <option key={profile.id} value={profile.id}>{formatProfileVersion(profileVersion(profile))}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Returns
+                <select
+                  value={returnModelKind}
+                  onChange={(e) => setReturnModelKind(e.target.value as ReturnModelKind | "")}
+                  title="Portfolio-level lognormal draws, or correlated stock, bond and cash returns on the 60/35/5 mix"
+                >
+                  <option value="">Portfolio lognormal</option>
+                  {(Object.keys(RETURN_MODEL_LABELS) as ReturnModelKind[]).map(kind => (
+                    <option key={kind} value={kind}>{RETURN_MODEL_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            
             <div className="strategy-cards">
               <div className="strategy-card featured">
                 <div className="strategy-icon">🛡️</div>
                 <h3>Conservative Approach</h3>
                 <p>3-4% initial withdrawal rate adjusted for inflation. Designed for maximum portfolio longevity.</p>
-                <div className="strategy-stats">
-                  <div className="stat">
-                    <label>Success Rate:</label>
-                    <span>95%+</span>
-                  </div>
-                  <div className="stat">
-                    <label>Volatility:</label>
-                    <span>Low</span>
-                  </div>
-                </div>
+                {renderSimulationStats("conservative")}
               </div>
               
               <div className="strategy-card featured">
                 <div className="strategy-icon">⚖️</div>
                 <h3>Balanced Approach</h3>
                 <p>4-5% initial withdrawal with market adjustments. Balance between income and growth.</p>
-                <div className="strategy-stats">
-                  <div className="stat">
-                    <label>Success Rate:</label>
-                    <span>85-90%</span>
-                  </div>
-                  <div className="stat">
-                    <label>Volatility:</label>
-                    <span>Moderate</span>
-                  </div>
-                </div>
+                {renderSimulationStats("moderate")}
               </div>
               
               <div className="strategy-card featured">
                 <div className="strategy-icon">🚀</div>
                 <h3>Growth Approach</h3>
                 <p>5-6% initial withdrawal with dynamic adjustments. Higher income potential with more risk.</p>
-                <div className="strategy-stats">
-                  <div className="stat">
-                    <label>Success Rate:</label>
-                    <span>70-80%</span>
-                  </div>
-                  <div className="stat">
-                    <label>Volatility:</label>
-                    <span>High</span>
-                  </div>
-                </div>
+                {renderSimulationStats("aggressive")}
+              </div>
+              
+              <div className="strategy-card featured">
+                <div className="strategy-icon">🚧</div>
+                <h3>Guardrails Approach</h3>
+                <p>5% initial withdrawal with Guyton-Klinger rules: cut 10% when the withdrawal rate drifts 20% above its start, raise 10% when it drifts 20% below, and skip inflation raises after losing years.</p>
+                {renderSimulationStats("guardrails")}
+              </div>
+              
+              <div className="strategy-card featured">
+                <div className="strategy-icon">📐</div>
+                <h3>Variable Percentage (VPW)</h3>
+                <p>Each year withdraws the payment that would spend the portfolio down by the end age, based on the remaining years and the expected return of a 60/40 allocation. Income flexes with markets but never runs out early.</p>
+                {renderSimulationStats("vpw")}
+              </div>
+              
+              <div className="strategy-card featured">
+                <div className="strategy-icon">🪣</div>
+                <h3>Bucket Approach</h3>
+                <p>4% inflation-adjusted spending paid from two years of cash, backed by five years of bonds and an equity bucket. Equities are sold to refill the nearer buckets only after a gain, so bad years are spent from cash and bonds.</p>
+                {renderSimulationStats("bucket")}
               </div>
             </div>
           </div>
         )}
         
+        {activeTab === "assumptions" && (
+          <MarketAssumptionsAdmin profiles={marketProfiles} onChange={setMarketProfiles} />
+        )}
+        
         {activeTab === "tutorial" && (
           <div className="tutorial-section">
             <h2>How RetireSecure Works</h2>
@@ -659,6 +1265,21 @@ const App: React.FC = () => {
           creating={creating}
           planData={newPlanData}
           setPlanData={setNewPlanData}
+          profiles={latestVersions(marketProfiles)}
+        />
+      )}
+      
+      {detailPlan && (
+        <PlanDetailModal 
+          plan={detailPlan} 
+          onClose={() => setDetailPlan(null)} 
+        />
+      )}
+      
+      {showComparison && (
+        <PlanComparisonModal 
+          plans={compareIds.map(id => plans.find(plan => plan.id === id)).filter((plan): plan is RetirementPlan => !!plan)} 
+          onClose={() => setShowComparison(false)} 
         />
       )}
       
@@ -719,6 +1340,7 @@ interface ModalCreateProps {
   creating: boolean;
   planData: any;
   setPlanData: (data: any) => void;
+  profiles: CapitalMarketProfile[];
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -726,7 +1348,8 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   onClose, 
   creating,
   planData,
-  setPlanData
+  setPlanData,
+  profiles
 }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -736,8 +1359,23 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  // Choosing a profile also resets the return to its reference-mix expectation
+  const handleProfileChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const profile = profiles.find(p => p.id === e.target.value);
+    setPlanData({
+      ...planData,
+      capitalMarketsId: e.target.value,
+      returnRate: profile
+        ? String(Math.round(portfolioExpectedReturn(profile, REFERENCE_ALLOCATION) * 1000) / 10)
+        : planData.returnRate
+    });
+  };
+
   const handleSubmit = () => {
-    if (!planData.encryptedAssets || !planData.retirementGoal) {
+    const totalAssets = (parseFloat(planData.taxableAssets) || 0) +
+      (parseFloat(planData.taxDeferredAssets) || 0) +
+      (parseFloat(planData.rothAssets) || 0);
+    if (!planData.encryptedAssets || !planData.retirementGoal || !(totalAssets > 0)) {
       alert("Please fill required fields");
       return;
     }
@@ -786,9 +1424,812 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               <option value="conservative">Conservative (3-4% withdrawal)</option>
               <option value="moderate">Moderate (4-5% withdrawal)</option>
               <option value="aggressive">Aggressive (5-6% withdrawal)</option>
+              <option value="guardrails">Guardrails (Guyton-Klinger, 5% start)</option>
+              <option value="vpw">Variable Percentage (VPW)</option>
+              <option value="bucket">Bucket (cash, bonds, equities)</option>
             </select>
           </div>
           
+          {planData.strategyPreference === "bucket" && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Cash (years)</label>
+                <input 
+                  type="number"
+                  name="bucketCashYears"
+                  value={planData.bucketCashYears} 
+                  onChange={handleChange}
+                  min={0}
+                  title="Years of withdrawals held in the cash bucket"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Bonds (years)</label>
+                <input 
+                  type="number"
+                  name="bucketBondYears"
+                  value={planData.bucketBondYears} 
+                  onChange={handleChange}
+                  min={0}
+                  title="Years of withdrawals held in the bond bucket"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Refill Rule</label>
+                <select 
+                  name="bucketRefillRule"
+                  value={planData.bucketRefillRule} 
+                  onChange={handleChange}
+                >
+                  {REFILL_RULES.map(rule => (
+                    <option key={rule} value={rule}>{REFILL_RULE_LABELS[rule]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          
+          {planData.strategyPreference === "vpw" && (
+            <div className="form-group">
+              <label>Stock Allocation (%)</label>
+              <input 
+                type="number"
+                name="vpwStockAllocation"
+                value={planData.vpwStockAllocation} 
+                onChange={handleChange}
+                min={0}
+                max={100}
+              />
+            </div>
+          )}
+          
+          {planData.strategyPreference === "guardrails" && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Preservation (%)</label>
+                <input 
+                  type="number"
+                  name="capitalPreservationThreshold"
+                  value={planData.capitalPreservationThreshold} 
+                  onChange={handleChange}
+                  title="Cut spending when the withdrawal rate rises this far above its initial rate"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Prosperity (%)</label>
+                <input 
+                  type="number"
+                  name="prosperityThreshold"
+                  value={planData.prosperityThreshold} 
+                  onChange={handleChange}
+                  title="Raise spending when the withdrawal rate falls this far below its initial rate"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Skip Below (%)</label>
+                <input 
+                  type="number"
+                  name="inflationSkipThreshold"
+                  value={planData.inflationSkipThreshold} 
+                  onChange={handleChange}
+                  title="Skip the inflation raise after a portfolio return below this rate"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Adjust (%)</label>
+                <input 
+                  type="number"
+                  name="guardrailAdjustment"
+                  value={planData.guardrailAdjustment} 
+                  onChange={handleChange}
+                  title="Size of each guardrail cut or raise"
+                />
+              </div>
+            </div>
+          )}
+          
+          <label className="form-section-label">Starting Assets *</label>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Taxable</label>
+              <input 
+                type="number"
+                name="taxableAssets"
+                value={planData.taxableAssets} 
+                onChange={handleChange}
+                placeholder="e.g. 400000" 
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Tax-Deferred</label>
+              <input 
+                type="number"
+                name="taxDeferredAssets"
+                value={planData.taxDeferredAssets} 
+                onChange={handleChange}
+                placeholder="401(k), IRA" 
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Roth</label>
+              <input 
+                type="number"
+                name="rothAssets"
+                value={planData.rothAssets} 
+                onChange={handleChange}
+                placeholder="Roth IRA" 
+              />
+            </div>
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Annual Spending</label>
+              <input 
+                type="number"
+                name="annualSpending"
+                value={planData.annualSpending} 
+                onChange={handleChange}
+                placeholder="Defaults to strategy rate" 
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Spending Profile</label>
+              <select 
+                name="spendingProfile"
+                value={planData.spendingProfile} 
+                onChange={handleChange}
+              >
+                {SPENDING_PROFILE_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{SPENDING_PROFILE_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>RMD Start Age</label>
+              <input 
+                type="number"
+                name="rmdStartAge"
+                min={EARLIEST_RMD_START_AGE}
+                value={planData.rmdStartAge} 
+                onChange={handleChange}
+              />
+            </div>
+          </div>
+          
+          {planData.spendingProfile === "phased" && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Go-Go (%)</label>
+                <input 
+                  type="number"
+                  name="goGoMultiplier"
+                  value={planData.goGoMultiplier} 
+                  onChange={handleChange}
+                  min={0}
+                  title="Share of planned spending before the slow-go years"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Slow-Go Age</label>
+                <input 
+                  type="number"
+                  name="slowGoAge"
+                  value={planData.slowGoAge} 
+                  onChange={handleChange}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Slow-Go (%)</label>
+                <input 
+                  type="number"
+                  name="slowGoMultiplier"
+                  value={planData.slowGoMultiplier} 
+                  onChange={handleChange}
+                  min={0}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>No-Go Age</label>
+                <input 
+                  type="number"
+                  name="noGoAge"
+                  value={planData.noGoAge} 
+                  onChange={handleChange}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>No-Go (%)</label>
+                <input 
+                  type="number"
+                  name="noGoMultiplier"
+                  value={planData.noGoMultiplier} 
+                  onChange={handleChange}
+                  min={0}
+                />
+              </div>
+            </div>
+          )}
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>One-off Expenses</label>
+              <input 
+                type="text"
+                name="lumpExpenses"
+                value={planData.lumpExpenses} 
+                onChange={handleChange}
+                placeholder="age:amount, e.g. 70:40000, 78:25000"
+                title="Expenses in today's money, paid once at the given age"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Bequest Target</label>
+              <input 
+                type="number"
+                name="bequestTarget"
+                value={planData.bequestTarget} 
+                onChange={handleChange}
+                placeholder="Today's money"
+              />
+            </div>
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Return (%)</label>
+              <input 
+                type="number"
+                name="returnRate"
+                value={planData.returnRate} 
+                onChange={handleChange}
+                title="Glide paths and the bucket strategy use the market assumptions' asset-class returns instead"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>{planData.inflationModel === "meanReverting" ? "Mean Inflation (%)" : "Inflation (%)"}</label>
+              <input 
+                type="number"
+                name="inflationRate"
+                value={planData.inflationRate} 
+                onChange={handleChange}
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Retirement Age</label>
+              <input 
+                type="number"
+                name="retirementAge"
+                value={planData.retirementAge} 
+                onChange={handleChange}
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Horizon (years)</label>
+              <input 
+                type="number"
+                name="horizonYears"
+                value={planData.horizonYears} 
+                onChange={handleChange}
+              />
+            </div>
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Market Assumptions</label>
+              <select 
+                name="capitalMarketsId"
+                value={planData.capitalMarketsId} 
+                onChange={handleProfileChange}
+                title="Capital-market profile for asset-class returns, volatility and correlations"
+              >
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{formatProfileVersion(profileVersion(profile))}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>Simulated Returns</label>
+              <select
+                name="returnModel"
+                value={planData.returnModel}
+                onChange={handleChange}
+                title="How the plan's Monte Carlo draws returns: portfolio-level lognormal, or correlated stock, bond and cash returns"
+              >
+                <option value="">Portfolio lognormal</option>
+                {(Object.keys(RETURN_MODEL_LABELS) as ReturnModelKind[]).map(kind => (
+                  <option key={kind} value={kind}>{RETURN_MODEL_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="form-group">
+              <label>Glide Path</label>
+              <select 
+                name="glidePathKind"
+                value={planData.glidePathKind} 
+                onChange={handleChange}
+                title="Sets the stock/bond/cash mix each year; replaces the single return rate"
+              >
+                <option value="">None (single return)</option>
+                {(Object.keys(GLIDE_PATH_LABELS) as GlidePathKind[]).map(kind => (
+                  <option key={kind} value={kind}>{GLIDE_PATH_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            
+            {planData.glidePathKind && (
+              <div className="form-group">
+                <label>{planData.glidePathKind === "static" ? "Stocks (%)" : "Start Stocks (%)"}</label>
+                <input 
+                  type="number"
+                  name="glideStartEquity"
+                  value={planData.glideStartEquity} 
+                  onChange={handleChange}
+                  placeholder={String(DEFAULT_GLIDE_PATHS[planData.glidePathKind as GlidePathKind].startEquity * 100)}
+                />
+              </div>
+            )}
+            
+            {planData.glidePathKind && planData.glidePathKind !== "static" && (
+              <div className="form-group">
+                <label>End Stocks (%)</label>
+                <input 
+                  type="number"
+                  name="glideEndEquity"
+                  value={planData.glideEndEquity} 
+                  onChange={handleChange}
+                  placeholder={String(DEFAULT_GLIDE_PATHS[planData.glidePathKind as GlidePathKind].endEquity * 100)}
+                />
+              </div>
+            )}
+            
+            {planData.glidePathKind === "risingEquity" && (
+              <div className="form-group">
+                <label>Over (years)</label>
+                <input 
+                  type="number"
+                  name="glideTransitionYears"
+                  value={planData.glideTransitionYears} 
+                  onChange={handleChange}
+                  placeholder={String(DEFAULT_GLIDE_PATHS.risingEquity.transitionYears)}
+                />
+              </div>
+            )}
+            
+            {planData.glidePathKind && (
+              <div className="form-group">
+                <label>Cash (%)</label>
+                <input 
+                  type="number"
+                  name="glideCash"
+                  value={planData.glideCash} 
+                  onChange={handleChange}
+                  placeholder={String(DEFAULT_GLIDE_PATHS[planData.glidePathKind as GlidePathKind].cashShare * 100)}
+                />
+              </div>
+            )}
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Inflation Model</label>
+              <select 
+                name="inflationModel"
+                value={planData.inflationModel} 
+                onChange={handleChange}
+                title="Historical CPI replays US inflation from 1928; mean-reverting drifts randomly around the inflation rate"
+              >
+                {(Object.keys(INFLATION_MODEL_LABELS) as InflationModelKind[]).map(kind => (
+                  <option key={kind} value={kind}>{INFLATION_MODEL_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            
+            {planData.inflationModel === "meanReverting" && (
+              <div className="form-group">
+                <label>Inflation Volatility (%)</label>
+                <input 
+                  type="number"
+                  name="inflationVolatility"
+                  value={planData.inflationVolatility} 
+                  onChange={handleChange}
+                  min={0}
+                />
+              </div>
+            )}
+            
+            <div className="form-group">
+              <label>Longevity</label>
+              <select 
+                name="longevitySex"
+                value={planData.longevitySex} 
+                onChange={handleChange}
+                title="Simulations sample the age at death from a period mortality table instead of using the fixed horizon"
+              >
+                <option value="">Fixed horizon</option>
+                {(Object.keys(SEX_LABELS) as Sex[]).map(sex => (
+                  <option key={sex} value={sex}>Mortality table ({SEX_LABELS[sex].toLowerCase()})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Benefit PIA (monthly)</label>
+              <input 
+                type="number"
+                name="benefitPia"
+                value={planData.benefitPia} 
+                onChange={handleChange}
+                placeholder="Social Security / state pension"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Claiming Age</label>
+              <input 
+                type="number"
+                name="benefitClaimAge"
+                value={planData.benefitClaimAge} 
+                onChange={handleChange}
+                min={62}
+                max={70}
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Life Expectancy</label>
+              <input 
+                type="number"
+                name="lifeExpectancy"
+                value={planData.lifeExpectancy} 
+                onChange={handleChange}
+              />
+            </div>
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Annuitize (%)</label>
+              <input 
+                type="number"
+                name="annuityAllocation"
+                value={planData.annuityAllocation} 
+                onChange={handleChange}
+                min={0}
+                max={100}
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Annuity Type</label>
+              <select 
+                name="annuityKind"
+                value={planData.annuityKind} 
+                onChange={handleChange}
+              >
+                <option value="spia">Immediate (SPIA)</option>
+                <option value="dia">Deferred (DIA)</option>
+              </select>
+            </div>
+            
+            {planData.annuityKind === "dia" && (
+              <div className="form-group">
+                <label>Income Start Age</label>
+                <input 
+                  type="number"
+                  name="annuityStartAge"
+                  value={planData.annuityStartAge} 
+                  onChange={handleChange}
+                />
+              </div>
+            )}
+          </div>
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Pension (annual)</label>
+              <input 
+                type="number"
+                name="pensionAmount"
+                value={planData.pensionAmount} 
+                onChange={handleChange}
+                placeholder="Optional"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Survivor (%)</label>
+              <input 
+                type="number"
+                name="pensionSurvivorShare"
+                value={planData.pensionSurvivorShare} 
+                onChange={handleChange}
+                min={0}
+                max={100}
+                title="Share of your pension that continues to your spouse"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Household</label>
+              <select 
+                name="householdType"
+                value={planData.householdType} 
+                onChange={handleChange}
+              >
+                <option value="single">Single</option>
+                <option value="couple">Couple</option>
+              </select>
+            </div>
+          </div>
+          
+          {parseFloat(planData.pensionAmount) > 0 && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Pension Start Age</label>
+                <input 
+                  type="number"
+                  name="pensionStartAge"
+                  value={planData.pensionStartAge} 
+                  onChange={handleChange}
+                  placeholder="At retirement"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>COLA (%)</label>
+                <input 
+                  type="number"
+                  name="pensionCola"
+                  value={planData.pensionCola} 
+                  onChange={handleChange}
+                  min={0}
+                  title="Fixed annual increase; 0 for none"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Lump-Sum Offer</label>
+                <input 
+                  type="number"
+                  name="pensionLumpSum"
+                  value={planData.pensionLumpSum} 
+                  onChange={handleChange}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          )}
+          
+          {planData.householdType === "couple" && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Spouse PIA (monthly)</label>
+                <input 
+                  type="number"
+                  name="spousePia"
+                  value={planData.spousePia} 
+                  onChange={handleChange}
+                  placeholder="Optional"
+                />
+              </div>
+            
+              <div className="form-group">
+                <label>Spouse Age Diff.</label>
+                <input 
+                  type="number"
+                  name="spouseAgeOffset"
+                  value={planData.spouseAgeOffset} 
+                  onChange={handleChange}
+                  title="Spouse age minus your age"
+                />
+              </div>
+            
+              <div className="form-group">
+                <label>Spouse Claiming Age</label>
+                <input 
+                  type="number"
+                  name="spouseClaimAge"
+                  value={planData.spouseClaimAge} 
+                  onChange={handleChange}
+                  min={62}
+                  max={70}
+                />
+              </div>
+            
+              <div className="form-group">
+                <label>Spouse Life Exp.</label>
+                <input 
+                  type="number"
+                  name="spouseLifeExpectancy"
+                  value={planData.spouseLifeExpectancy} 
+                  onChange={handleChange}
+                />
+              </div>
+
+              {planData.longevitySex && (
+                <div className="form-group">
+                  <label>Spouse Mortality</label>
+                  <select
+                    name="longevitySpouseSex"
+                    value={planData.longevitySpouseSex}
+                    onChange={handleChange}
+                    title="Table the spouse's age at death is drawn from; simulations end at the second death"
+                  >
+                    <option value="">Other table</option>
+                    {(Object.keys(SEX_LABELS) as Sex[]).map(sex => (
+                      <option key={sex} value={sex}>{SEX_LABELS[sex]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {planData.householdType === "couple" && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Spouse Pension</label>
+                <input 
+                  type="number"
+                  name="spousePensionAmount"
+                  value={planData.spousePensionAmount} 
+                  onChange={handleChange}
+                  placeholder="Optional"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Spouse Survivor (%)</label>
+                <input 
+                  type="number"
+                  name="spousePensionSurvivorShare"
+                  value={planData.spousePensionSurvivorShare} 
+                  onChange={handleChange}
+                  min={0}
+                  max={100}
+                  title="Share of your spouse's pension that continues to you"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Survivor Spending (%)</label>
+                <input 
+                  type="number"
+                  name="survivorSpending"
+                  value={planData.survivorSpending} 
+                  onChange={handleChange}
+                  min={0}
+                  max={100}
+                  title="Share of household spending the survivor still needs after the first death"
+                />
+              </div>
+            </div>
+          )}
+          
+          {planData.householdType === "couple" && parseFloat(planData.spousePensionAmount) > 0 && (
+            <div className="form-row">
+              <div className="form-group">
+                <label>Spouse Pension Start Age</label>
+                <input 
+                  type="number"
+                  name="spousePensionStartAge"
+                  value={planData.spousePensionStartAge} 
+                  onChange={handleChange}
+                  placeholder="At retirement"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Spouse COLA (%)</label>
+                <input 
+                  type="number"
+                  name="spousePensionCola"
+                  value={planData.spousePensionCola} 
+                  onChange={handleChange}
+                  min={0}
+                  title="Fixed annual increase; 0 for none"
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Spouse Lump-Sum Offer</label>
+                <input 
+                  type="number"
+                  name="spousePensionLumpSum"
+                  value={planData.spousePensionLumpSum} 
+                  onChange={handleChange}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          )}
+          
+          <div className="form-row">
+            <div className="form-group">
+              <label>Health Premiums (annual)</label>
+              <input 
+                type="number"
+                name="healthPremium"
+                value={planData.healthPremium} 
+                onChange={handleChange}
+                placeholder="Optional"
+                title="Premiums and out-of-pocket costs today; they rise with age"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Health Inflation (%)</label>
+              <input 
+                type="number"
+                name="healthcareInflation"
+                value={planData.healthcareInflation} 
+                onChange={handleChange}
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>LTC Chance (%)</label>
+              <input 
+                type="number"
+                name="ltcProbability"
+                value={planData.ltcProbability} 
+                onChange={handleChange}
+                min={0}
+                max={100}
+                title="Chance of needing paid long-term care; 0 leaves it out"
+              />
+            </div>
+            
+            {parseFloat(planData.ltcProbability) > 0 && (
+              <div className="form-group">
+                <label>LTC Cost (annual)</label>
+                <input 
+                  type="number"
+                  name="ltcAnnualCost"
+                  value={planData.ltcAnnualCost} 
+                  onChange={handleChange}
+                />
+              </div>
+            )}
+            
+            {parseFloat(planData.ltcProbability) > 0 && (
+              <div className="form-group">
+                <label>LTC Years</label>
+                <input 
+                  type="number"
+                  name="ltcDurationYears"
+                  value={planData.ltcDurationYears} 
+                  onChange={handleChange}
+                  min={1}
+                  title="Average duration of care"
+                />
+              </div>
+            )}
+          </div>
+          
           <div className="privacy-notice">
             <div className="lock-icon"></div>
             <span>Your data remains encrypted during all calculations</span>
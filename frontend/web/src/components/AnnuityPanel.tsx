@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import {
+  DEFAULT_RETIREMENT_AGE,
+  DollarBasis,
+  ProjectionInputs,
+  projectCashflows,
+  toDollarBasis
+} from '../simulation/projection';
+import { DEFAULT_SEED, PANEL_TRIALS, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import {
+  AnnuityKind,
+  AnnuityPurchase,
+  annuityIncomeStream,
+  annuityPayoutRate,
+  annuityPremium
+} from '../simulation/annuity';
+import { formatCurrency, formatPercent } from '../format';
+
+const DEFAULT_PURCHASE: AnnuityPurchase = { kind: 'spia', allocation: 0.25, incomeStartAge: 80 };
+
+interface AnnuityPanelProps {
+  assumptions: ProjectionInputs;
+  basis: DollarBasis;
+}
+
+export default function AnnuityPanel({ assumptions, basis }: AnnuityPanelProps) {
+  const [purchase, setPurchase] = useState<AnnuityPurchase>(assumptions.annuity ?? DEFAULT_PURCHASE);
+  const purchaseAge = assumptions.startAge ?? DEFAULT_RETIREMENT_AGE;
+
+  // Same projection and Monte Carlo paths, with and without the annuity
+  const comparison = useMemo(() => {
+    const scenarios = [
+      { label: 'Without annuity', inputs: { ...assumptions, annuity: undefined } },
+      { label: 'With annuity', inputs: { ...assumptions, annuity: purchase } }
+    ];
+    return scenarios.map(({ label, inputs }) => {
+      const monteCarlo = runMonteCarlo(inputs, {
+        trials: PANEL_TRIALS,
+        seed: DEFAULT_SEED,
+        distribution: planReturnDistribution(assumptions)
+      });
+      const projection = projectCashflows(inputs);
+      return {
+        label,
+        successProbability: monteCarlo.successProbability,
+        medianLegacy: basis === 'real'
+          ? monteCarlo.realEndingBalancePercentiles[50]
+          : monteCarlo.endingBalancePercentiles[50],
+        projectedLegacy: toDollarBasis(projection.endingBalance, projection.endingPriceLevel, basis)
+      };
+    });
+  }, [assumptions, purchase, basis]);
+
+  const premium = annuityPremium(purchase, assumptions.startingAssets);
+  const income = annuityIncomeStream(purchase, assumptions.startingAssets, purchaseAge);
+
+  const update = (changes: Partial<AnnuityPurchase>) => setPurchase({ ...purchase, ...changes });
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Annuity Purchase</h3>
+        <div className="detail-controls">
+          <label>
+            Type
+            <select value={purchase.kind} onChange={(e) => update({ kind: e.target.value as AnnuityKind })}>
+              <option value="spia">Immediate (SPIA)</option>
+              <option value="dia">Deferred (DIA)</option>
+            </select>
+          </label>
+          <label>
+            Assets (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(purchase.allocation * 100)}
+              onChange={(e) => update({ allocation: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+            />
+          </label>
+          {purchase.kind === 'dia' && (
+            <label>
+              Income at
+              <input
+                type="number"
+                min={purchaseAge}
+                value={purchase.incomeStartAge}
+                onChange={(e) => update({ incomeStartAge: parseInt(e.target.value, 10) || purchaseAge })}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+      <p className="detail-note">
+        A {formatCurrency(premium)} premium at age {purchaseAge} buys {formatCurrency(income.annualAmount)} a year
+        from age {income.startAge} for life ({formatPercent(annuityPayoutRate(purchase, purchaseAge))} payout rate,
+        not inflation-adjusted).
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Scenario</th>
+            <th>Success Rate</th>
+            <th>Median Legacy</th>
+            <th>Projected Legacy</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.map(row => (
+            <tr key={row.label}>
+              <td>{row.label}</td>
+              <td>{formatPercent(row.successProbability)}</td>
+              <td>{formatCurrency(row.medianLegacy)}</td>
+              <td>{formatCurrency(row.projectedLegacy)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { BacktestWindow, DEFAULT_STOCK_ALLOCATION, runBacktest } from '../simulation/backtest';
+import { FIRST_HISTORICAL_YEAR, LAST_HISTORICAL_YEAR } from '../simulation/historicalReturns';
+import { ProjectionInputs } from '../simulation/projection';
+import { formatCurrency, formatPercent } from '../format';
+
+interface BacktestPanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function BacktestPanel({ assumptions }: BacktestPanelProps) {
+  const [stockAllocation, setStockAllocation] = useState(DEFAULT_STOCK_ALLOCATION * 100);
+
+  const backtest = useMemo(
+    () => runBacktest(assumptions, { stockAllocation: stockAllocation / 100 }),
+    [assumptions, stockAllocation]
+  );
+
+  const renderWindowRow = (label: string, window: BacktestWindow | null) => {
+    if (!window) return null;
+
+    return (
+      <tr key={label}>
+        <td>{label}</td>
+        <td>{window.startYear}–{window.endYear}</td>
+        <td>{formatCurrency(window.realEndingBalance)}</td>
+        <td className={window.survived ? 'survived' : 'depleted'}>
+          {window.survived ? 'Survived' : `Depleted in year ${window.projection.depletionYear}`}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Historical Backtest</h3>
+        {!assumptions.glidePath && (
+          <label>
+            Stocks (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={stockAllocation}
+              onChange={(e) => setStockAllocation(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+            />
+          </label>
+        )}
+      </div>
+      <p className="detail-note">
+        Every rolling {backtest.windowYears}-year window from {FIRST_HISTORICAL_YEAR} to {LAST_HISTORICAL_YEAR}:
+        {" "}{formatPercent(backtest.successRate)} of {backtest.windows.length} windows survived.
+        Ending balances are in start-year money.
+        {assumptions.glidePath && " Each window follows the plan's glide path, with cash earning Treasury bill rates."}
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Window</th>
+            <th>Years</th>
+            <th>Real Ending</th>
+            <th>Outcome</th>
+          </tr>
+        </thead>
+        <tbody>
+          {renderWindowRow('Worst', backtest.worst)}
+          {renderWindowRow('Median', backtest.median)}
+          {renderWindowRow('Best', backtest.best)}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { DollarBasis, ProjectionInputs, expectedAssetReturns, expectedInflation, toDollarBasis } from '../simulation/projection';
+import { HISTORICAL_RETURNS, FIRST_HISTORICAL_YEAR } from '../simulation/historicalReturns';
+import {
+  BucketConfig,
+  BucketYear,
+  REFILL_RULE_LABELS,
+  simulateBuckets
+} from '../simulation/buckets';
+import { historicalAssetReturns } from '../simulation/assetClasses';
+import { formatCurrency } from '../format';
+
+const EXPECTED_RETURNS = 'expected';
+
+interface BucketPanelProps {
+  assumptions: ProjectionInputs;
+  config: BucketConfig;
+  basis: DollarBasis;
+}
+
+export default function BucketPanel({ assumptions, config, basis }: BucketPanelProps) {
+  const [returnSource, setReturnSource] = useState(EXPECTED_RETURNS);
+
+  // Historical start years whose window covers the whole horizon
+  const startYears = useMemo(() => {
+    const count = HISTORICAL_RETURNS.length - assumptions.horizonYears + 1;
+    return Array.from({ length: Math.max(0, count) }, (_, i) => FIRST_HISTORICAL_YEAR + i);
+  }, [assumptions.horizonYears]);
+
+  const projection = useMemo(() => {
+    if (returnSource === EXPECTED_RETURNS) {
+      return simulateBuckets(assumptions, config, expectedAssetReturns(assumptions), expectedInflation(assumptions));
+    }
+    const start = parseInt(returnSource, 10) - FIRST_HISTORICAL_YEAR;
+    const history = HISTORICAL_RETURNS.slice(start, start + assumptions.horizonYears);
+    return simulateBuckets(assumptions, config, historicalAssetReturns(history), history.map(h => h.inflation));
+  }, [assumptions, config, returnSource]);
+
+  const rowClassName = (row: BucketYear) => {
+    if (projection.depletionYear !== null && row.year >= projection.depletionYear) return 'depleted';
+    return row.cashDry ? 'cash-dry' : '';
+  };
+
+  const endAmount = (value: number, row: BucketYear) => formatCurrency(toDollarBasis(value, row.endPriceLevel, basis));
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Bucket Balances</h3>
+        <label>
+          Returns
+          <select value={returnSource} onChange={(e) => setReturnSource(e.target.value)}>
+            <option value={EXPECTED_RETURNS}>Expected</option>
+            {startYears.map(year => (
+              <option key={year} value={year}>History from {year}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="detail-note">
+        {config.cashYears} years of withdrawals in cash and {config.bondYears} in bonds;
+        {" "}{REFILL_RULE_LABELS[config.refillRule].toLowerCase()}.
+        {" "}{projection.cashDryYears.length > 0
+          ? `The cash bucket ran dry in ${projection.cashDryYears.length} years (year ${projection.cashDryYears.join(', ')}); those withdrawals sold bonds or equities.`
+          : 'The cash bucket never ran dry.'}
+      </p>
+      <div className="projection-table-wrapper">
+        <table className="projection-table">
+          <thead>
+            <tr>
+              <th>Year</th>
+              <th>Age</th>
+              <th>Withdrawal</th>
+              <th>Cash</th>
+              <th>Bonds</th>
+              <th>Equities</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projection.years.map(row => (
+              <tr key={row.year} className={rowClassName(row)}>
+                <td>{row.year}</td>
+                <td>{row.age}</td>
+                <td>
+                  {formatCurrency(toDollarBasis(row.withdrawal, row.startPriceLevel, basis))}
+                  {row.cashDry && <span className="rmd-flag">Cash dry</span>}
+                </td>
+                <td>{endAmount(row.endBalances.cash, row)}</td>
+                <td>{endAmount(row.endBalances.bonds, row)}</td>
+                <td>{endAmount(row.endBalances.equities, row)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
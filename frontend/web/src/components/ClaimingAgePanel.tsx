@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs } from '../simulation/projection';
+import { DEFAULT_SEED, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import { ClaimingObjective, ClaimingOption, optimizeClaimingAge } from '../simulation/socialSecurity';
+import { formatCurrency, formatPercent } from '../format';
+
+// Fewer trials than the other panels: every claiming combination runs its own batch
+const CLAIMING_TRIALS = 200;
+
+interface ClaimingAgePanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function ClaimingAgePanel({ assumptions }: ClaimingAgePanelProps) {
+  const [objective, setObjective] = useState<ClaimingObjective>('lifetimeIncome');
+  const socialSecurity = assumptions.socialSecurity;
+
+  const result = useMemo(() => {
+    if (!socialSecurity) return null;
+    return optimizeClaimingAge(socialSecurity, {
+      currentAge: assumptions.startAge ?? DEFAULT_RETIREMENT_AGE,
+      objective,
+      evaluatePlan: (candidate) => runMonteCarlo(
+        { ...assumptions, socialSecurity: candidate },
+        {
+          trials: CLAIMING_TRIALS,
+          seed: DEFAULT_SEED,
+          distribution: planReturnDistribution(assumptions)
+        }
+      ).successProbability
+    });
+  }, [assumptions, socialSecurity, objective]);
+
+  if (!socialSecurity || !result) return null;
+
+  // One row per primary claiming age, using the best spouse age for each
+  const score = (option: ClaimingOption) =>
+    objective === 'planSuccess' ? option.successProbability ?? 0 : option.lifetimeIncome;
+  const rows = new Map<number, ClaimingOption>();
+  for (const option of result.options) {
+    const current = rows.get(option.claimAge);
+    if (!current || score(option) > score(current)) rows.set(option.claimAge, option);
+  }
+
+  const { best } = result;
+  const hasSpouse = !!socialSecurity.spouse;
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Benefit Claiming Age</h3>
+        <label>
+          Optimize for
+          <select value={objective} onChange={(e) => setObjective(e.target.value as ClaimingObjective)}>
+            <option value="lifetimeIncome">Lifetime income</option>
+            <option value="planSuccess">Plan success</option>
+          </select>
+        </label>
+      </div>
+      <p className="detail-note">
+        Best: claim at {best.claimAge}
+        {hasSpouse && best.spouseClaimAge !== undefined && `, spouse at ${best.spouseClaimAge}`}
+        {' '}for {formatCurrency(best.annualBenefit)} a year and {formatCurrency(best.lifetimeIncome)} over
+        {hasSpouse ? ' both lifetimes' : ' your lifetime'}
+        {best.successProbability !== undefined && ` (${formatPercent(best.successProbability)} plan success)`}.
+        Currently planned: {socialSecurity.primary.claimAge}
+        {hasSpouse && ` / ${socialSecurity.spouse!.claimAge}`}.
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Claim Age</th>
+            {hasSpouse && <th>Spouse Age</th>}
+            <th>Annual Benefit</th>
+            <th>Lifetime Income</th>
+            {objective === 'planSuccess' && <th>Success Rate</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from(rows.values()).map(option => (
+            <tr key={option.claimAge} className={option === best ? 'current' : ''}>
+              <td>{option.claimAge}</td>
+              {hasSpouse && <td>{option.spouseClaimAge}</td>}
+              <td>{formatCurrency(option.annualBenefit)}</td>
+              <td>{formatCurrency(option.lifetimeIncome)}</td>
+              {objective === 'planSuccess' && <td>{formatPercent(option.successProbability ?? 0)}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
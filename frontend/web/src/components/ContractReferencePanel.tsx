@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectionInputs } from '../simulation/projection';
+import {
+  CONTRACT_STRATEGY_IDS,
+  CONTRACT_STRATEGY_LABELS,
+  contractInputsFor,
+  runContractReference,
+  verifySimResults
+} from '../simulation/contractReference';
+import { formatCurrency } from '../format';
+
+interface ContractReferencePanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function ContractReferencePanel({ assumptions }: ContractReferencePanelProps) {
+  const [decrypted, setDecrypted] = useState('');
+  const inputs = useMemo(() => contractInputsFor(assumptions), [assumptions]);
+  const reference = useMemo(() => runContractReference(inputs), [inputs]);
+
+  const [strategy, withdrawal, successRate] = reference.simResults;
+  const decryptedValues = decrypted.split(',').map(value => parseInt(value.trim(), 10));
+  const check = decryptedValues.length === 3 && decryptedValues.every(value => !isNaN(value))
+    ? verifySimResults(inputs, decryptedValues)
+    : null;
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>On-Chain Reference</h3>
+        <label>
+          Decrypted
+          <input
+            type="text"
+            className="decrypted-results"
+            placeholder="strategy, withdrawal, rate"
+            value={decrypted}
+            onChange={(e) => setDecrypted(e.target.value)}
+          />
+        </label>
+      </div>
+      <p className="detail-note">
+        The modelled off-chain simulation, in exact uint32 arithmetic over {reference.years} years:
+        expected results are [{strategy}, {withdrawal}, {successRate}]
+        ({CONTRACT_STRATEGY_LABELS[strategy]},
+        {" "}{formatCurrency(withdrawal)} first withdrawal, {successRate}% success).
+        {reference.wrapped && ' Some intermediate values exceed the uint32 range and wrap around, as they would on-chain.'}
+        {check && (check.matches
+          ? ' The decrypted results match.'
+          : ` The decrypted ${check.mismatches.join(', ')} ${check.mismatches.length > 1 ? 'do' : 'does'} not match.`)}
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Strategy</th>
+            <th>First Withdrawal</th>
+            <th>Ending Balance</th>
+            <th>Success Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {CONTRACT_STRATEGY_IDS.map(id => {
+            const outcome = reference.outcomes[id];
+            return (
+              <tr key={id} className={id === strategy ? 'current' : ''}>
+                <td>{id} · {CONTRACT_STRATEGY_LABELS[id]}</td>
+                <td>{formatCurrency(outcome.firstWithdrawal)}</td>
+                <td>{formatCurrency(outcome.years[outcome.years.length - 1]?.endBalance ?? inputs.assets)}</td>
+                <td>{outcome.successRate}%</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import React, { useState } from 'react';
+
+interface DeferredPanelProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+// Shows only a panel's title until it is opened, so a panel that runs
+// simulations does no work for readers who never look at it
+export default function DeferredPanel({ title, children }: DeferredPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  if (open) return <>{children}</>;
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>{title}</h3>
+        <button className="action-btn" onClick={() => setOpen(true)}>Show</button>
+      </div>
+    </div>
+  );
+}
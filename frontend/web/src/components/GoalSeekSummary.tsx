@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProjectionInputs } from '../simulation/projection';
+import { DEFAULT_SEED, planReturnDistribution } from '../simulation/monteCarlo';
+import { DEFAULT_SOLVER_TRIALS, GoalSeekResult, LATEST_RETIREMENT_AGE, goalSeek } from '../simulation/goalSeek';
+import { formatCurrency, formatPercent } from '../format';
+
+interface GoalSeekSummaryProps {
+  assumptions: ProjectionInputs;
+  targetConfidence: number; // fraction, e.g. 0.9
+}
+
+// Each solve runs dozens of simulations. It waits for edits to the target to
+// settle, runs after the card has rendered, and is redone only when the plan's
+// contents change, not when a refresh rebuilds the same assumptions.
+const SOLVE_DELAY_MS = 400;
+
+interface Solved {
+  key: string;
+  result: GoalSeekResult;
+}
+
+export default function GoalSeekSummary({ assumptions, targetConfidence }: GoalSeekSummaryProps) {
+  const [solved, setSolved] = useState<Solved | null>(null);
+  const key = useMemo(() => JSON.stringify([assumptions, targetConfidence]), [assumptions, targetConfidence]);
+  const target = formatPercent(targetConfidence, 0);
+
+  useEffect(() => {
+    if (solved?.key === key) return;
+    const timer = setTimeout(() => setSolved({
+      key,
+      result: goalSeek(assumptions, {
+        targetConfidence,
+        monteCarlo: {
+          trials: DEFAULT_SOLVER_TRIALS,
+          seed: DEFAULT_SEED,
+          distribution: planReturnDistribution(assumptions)
+        }
+      })
+    }), SOLVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key]);
+
+  const result = solved?.key === key ? solved.result : null;
+  if (!result) {
+    return (
+      <div className="detail-item">
+        <label>Goals at {target}:</label>
+        <span>Solving...</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {result.maxSpending !== null && (
+        <div className="detail-item">
+          <label>Max Spending ({target}):</label>
+          <span>{formatCurrency(result.maxSpending)}/yr</span>
+        </div>
+      )}
+      <div className="detail-item">
+        <label>Earliest Retirement ({target}):</label>
+        <span>
+          {result.earliestRetirementAge !== null
+            ? `Age ${result.earliestRetirementAge}`
+            : `Not by ${LATEST_RETIREMENT_AGE}`}
+        </span>
+      </div>
+      <div className="detail-item">
+        <label>Extra Savings Needed:</label>
+        <span>
+          {result.extraSavingsNeeded === null
+            ? 'Not reachable by saving more'
+            : result.extraSavingsNeeded > 0 ? formatCurrency(result.extraSavingsNeeded) : 'None'}
+        </span>
+      </div>
+    </>
+  );
+}
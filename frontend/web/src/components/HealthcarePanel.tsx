@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs } from '../simulation/projection';
+import { DEFAULT_SEED, PANEL_TRIALS, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import { HealthcareConfig, healthcareCost } from '../simulation/health';
+import { formatCurrency, formatPercent } from '../format';
+
+const PREMIUM_AGES = [75, 85, 95];
+
+interface HealthcarePanelProps {
+  assumptions: ProjectionInputs;
+  healthcare: HealthcareConfig;
+}
+
+export default function HealthcarePanel({ assumptions, healthcare }: HealthcarePanelProps) {
+  const startAge = assumptions.startAge ?? DEFAULT_RETIREMENT_AGE;
+
+  // Success with health costs added one layer at a time, on the same return draws
+  const layers = useMemo(() => {
+    const options = {
+      trials: PANEL_TRIALS,
+      seed: DEFAULT_SEED,
+      distribution: planReturnDistribution(assumptions)
+    };
+    const scenarios = [
+      { label: 'Without health costs', healthcare: undefined },
+      { label: 'Premiums', healthcare: { ...healthcare, ltc: undefined } },
+      ...(healthcare.ltc ? [{ label: 'Long-term-care risk', healthcare }] : [])
+    ];
+
+    let previous: number | null = null;
+    return scenarios.map(scenario => {
+      const successProbability = runMonteCarlo({ ...assumptions, healthcare: scenario.healthcare }, options).successProbability;
+      const change = previous === null ? null : successProbability - previous;
+      previous = successProbability;
+      return { label: scenario.label, successProbability, change };
+    });
+  }, [assumptions, healthcare]);
+
+  const ltc = healthcare.ltc;
+
+  return (
+    <div className="detail-section">
+      <h3>Healthcare Costs</h3>
+      <p className="detail-note">
+        Premiums of {formatCurrency(healthcare.annualPremium)} a year rise {formatPercent(healthcare.premiumAgeGrowth)} per
+        year of age and with {formatPercent(healthcare.healthcareInflation)} healthcare inflation.
+        {ltc && (
+          <>
+            {" "}Long-term care costing {formatCurrency(ltc.annualCost)} a year in today's money is needed
+            in {formatPercent(ltc.probability, 0)} of trials, starting between ages {ltc.earliestOnsetAge} and
+            {" "}{ltc.latestOnsetAge} and lasting {ltc.averageDurationYears} years on average.
+          </>
+        )}
+      </p>
+      <div className="assumption-grid">
+        {PREMIUM_AGES.filter(age => age > startAge).map(age => (
+          <div key={age}>
+            <label>Premiums at {age}</label>
+            <span>{formatCurrency(healthcareCost(healthcare, startAge, age, null))}</span>
+          </div>
+        ))}
+      </div>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Costs Included</th>
+            <th>Success Rate</th>
+            <th>Effect</th>
+          </tr>
+        </thead>
+        <tbody>
+          {layers.map(layer => (
+            <tr key={layer.label}>
+              <td>{layer.label}</td>
+              <td>{formatPercent(layer.successProbability)}</td>
+              <td className={layer.change !== null && layer.change < 0 ? 'depleted' : ''}>
+                {layer.change === null ? '–' : `${layer.change > 0 ? '+' : ''}${formatPercent(layer.change)}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { DollarBasis, ProjectionInputs, projectCashflows, toDollarBasis } from '../simulation/projection';
+import { DEFAULT_SEED, PANEL_TRIALS, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import {
+  HOUSEHOLD_MEMBERS,
+  Household,
+  HouseholdMemberId,
+  MEMBER_LABELS,
+  firstDeath
+} from '../simulation/household';
+import { formatCurrency, formatPercent } from '../format';
+
+const SURVIVOR_LABELS: Record<HouseholdMemberId, string> = {
+  primary: 'You survive',
+  spouse: 'Spouse survives'
+};
+
+interface HouseholdPanelProps {
+  assumptions: ProjectionInputs;
+  household: Household;
+  basis: DollarBasis;
+}
+
+export default function HouseholdPanel({ assumptions, household, basis }: HouseholdPanelProps) {
+  // Both members through the horizon, then each single-survivor path on the
+  // same return draws. The survivor outlives the horizon, so the fixed horizon
+  // is used rather than a sampled lifetime.
+  const paths = useMemo(() => {
+    const scenarios = [
+      { key: 'joint', label: 'Both survive', household: { ...household, survivor: undefined } },
+      ...HOUSEHOLD_MEMBERS.map(survivor => ({
+        key: survivor,
+        label: SURVIVOR_LABELS[survivor],
+        household: { ...household, survivor }
+      }))
+    ];
+
+    return scenarios.map(scenario => {
+      const inputs = { ...assumptions, household: scenario.household, longevity: undefined };
+      const projection = projectCashflows(inputs);
+      const death = firstDeath(scenario.household);
+      const afterDeath = death ? projection.years.find(row => row.age >= death.age) : undefined;
+      return {
+        ...scenario,
+        death,
+        projection,
+        incomeAfterDeath: afterDeath ? afterDeath.otherIncome / afterDeath.priceLevel : null,
+        monteCarlo: runMonteCarlo(inputs, {
+          trials: PANEL_TRIALS,
+          seed: DEFAULT_SEED,
+          distribution: planReturnDistribution(assumptions)
+        })
+      };
+    });
+  }, [assumptions, household]);
+
+  return (
+    <div className="detail-section">
+      <h3>Survivor Scenarios</h3>
+      <p className="detail-note">
+        On each survivor path the other member dies at their life expectancy; their benefits stop, pensions pay
+        the survivor share and spending drops to {formatPercent(household.survivorSpendingShare, 0)}.
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Scenario</th>
+            <th>First Death</th>
+            <th>Survivor Benefits</th>
+            <th>Projected Ending</th>
+            <th>Success Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {paths.map(path => (
+            <tr key={path.key}>
+              <td>{path.label}</td>
+              <td>
+                {path.death
+                  ? `${MEMBER_LABELS[path.death.member]} at ${household.lifeExpectancy[path.death.member]}`
+                  : '–'}
+              </td>
+              <td title="First year after the death, in today's money">
+                {path.incomeAfterDeath !== null ? formatCurrency(path.incomeAfterDeath) : '–'}
+              </td>
+              <td>
+                {formatCurrency(toDollarBasis(path.projection.endingBalance, path.projection.endingPriceLevel, basis))}
+              </td>
+              <td className={path.monteCarlo.successProbability < 0.8 ? 'depleted' : 'survived'}>
+                {formatPercent(path.monteCarlo.successProbability)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs } from '../simulation/projection';
+import { DEFAULT_SEED, PANEL_TRIALS, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import {
+  MORTALITY_TABLE_NAME,
+  SEX_LABELS,
+  Sex,
+  lifeExpectancy,
+  otherSex,
+  survivalProbability
+} from '../simulation/longevity';
+import { formatPercent } from '../format';
+
+const SURVIVAL_AGES = [85, 90, 95, 100];
+
+interface LongevityPanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function LongevityPanel({ assumptions }: LongevityPanelProps) {
+  const [sex, setSex] = useState<Sex>(assumptions.longevity?.sex ?? 'male');
+  const [spouseSex, setSpouseSex] = useState<Sex>(assumptions.longevity?.spouseSex ?? otherSex(sex));
+  const startAge = assumptions.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const household = assumptions.household;
+
+  // Same return draws, judged against a sampled lifetime and the fixed horizon
+  const outcomes = useMemo(() => {
+    const options = {
+      trials: PANEL_TRIALS,
+      seed: DEFAULT_SEED,
+      distribution: planReturnDistribution(assumptions)
+    };
+    return {
+      mortality: runMonteCarlo({ ...assumptions, longevity: { sex, spouseSex } }, options),
+      fixedHorizon: runMonteCarlo({ ...assumptions, longevity: undefined }, options)
+    };
+  }, [assumptions, sex, spouseSex]);
+
+  const longevity = outcomes.mortality.longevity;
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Longevity Risk</h3>
+        <label>
+          Table
+          <select value={sex} onChange={(e) => setSex(e.target.value as Sex)}>
+            {(Object.keys(SEX_LABELS) as Sex[]).map(key => (
+              <option key={key} value={key}>{SEX_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        {household && (
+          <label>
+            Spouse
+            <select value={spouseSex} onChange={(e) => setSpouseSex(e.target.value as Sex)}>
+              {(Object.keys(SEX_LABELS) as Sex[]).map(key => (
+                <option key={key} value={key}>{SEX_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      <p className="detail-note">
+        Using the {MORTALITY_TABLE_NAME}, a {SEX_LABELS[sex].toLowerCase()} retiree aged {startAge} can expect to
+        live another {lifeExpectancy(sex, startAge).toFixed(1)} years.
+        {household && ' Each trial draws a lifetime for both spouses; the survivor keeps drawing income until the second death.'}
+      </p>
+      <div className="assumption-grid">
+        {SURVIVAL_AGES.filter(age => age > startAge).map(age => (
+          <div key={age}>
+            <label>Alive at {age}</label>
+            <span>{formatPercent(survivalProbability(sex, startAge, age))}</span>
+          </div>
+        ))}
+      </div>
+      {longevity && (
+        <table className="projection-table">
+          <thead>
+            <tr>
+              <th>Measure</th>
+              <th>Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>Probability of outliving assets</td>
+              <td className={longevity.outliveAssetsProbability > 0.1 ? 'depleted' : 'survived'}>
+                {formatPercent(longevity.outliveAssetsProbability)}
+              </td>
+            </tr>
+            <tr>
+              <td>{household ? 'Median age at second death (yours)' : 'Median age at death'}</td>
+              <td>{Math.round(longevity.medianDeathAge)}</td>
+            </tr>
+            <tr>
+              <td>Age at death, 10th–90th percentile</td>
+              <td>{Math.round(longevity.deathAgePercentiles[10])}–{Math.round(longevity.deathAgePercentiles[90])}</td>
+            </tr>
+            <tr>
+              <td>Success over the fixed {assumptions.horizonYears}-year horizon</td>
+              <td>{formatPercent(outcomes.fixedHorizon.successProbability)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { ASSET_CLASSES, ASSET_CLASS_LABELS, AssetClass } from '../simulation/assetClasses';
+import {
+  CapitalMarketProfile,
+  REFERENCE_ALLOCATION,
+  addProfileVersion,
+  importProfiles,
+  latestVersions,
+  parseProfiles,
+  portfolioExpectedReturn,
+  portfolioVolatility,
+  profileHistory,
+  validateProfile
+} from '../simulation/capitalMarkets';
+import { formatPercent } from '../format';
+
+interface MarketAssumptionsAdminProps {
+  profiles: CapitalMarketProfile[];
+  onChange: (profiles: CapitalMarketProfile[]) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Percent inputs are kept as typed; NaN fails validation until fixed
+const fromPercent = (value: string) => parseFloat(value) / 100;
+
+export default function MarketAssumptionsAdmin({ profiles, onChange }: MarketAssumptionsAdminProps) {
+  const latest = latestVersions(profiles);
+  const [selectedId, setSelectedId] = useState(latest[0]?.id ?? '');
+  const [draft, setDraft] = useState<CapitalMarketProfile | null>(latest[0] ?? null);
+  const [importError, setImportError] = useState('');
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setDraft(latest.find(profile => profile.id === id) ?? null);
+  };
+
+  const newProfile = () => {
+    if (!draft) return;
+    const id = `profile-${Date.now().toString(36)}`;
+    setSelectedId(id);
+    setDraft({ ...draft, id, name: `${draft.name} copy`, version: 0 });
+  };
+
+  const setAsset = (asset: AssetClass, field: 'expectedReturn' | 'volatility', value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, assets: { ...draft.assets, [asset]: { ...draft.assets[asset], [field]: fromPercent(value) } } });
+  };
+
+  // Edits one cell and its mirror so the matrix stays symmetric
+  const setCorrelation = (a: AssetClass, b: AssetClass, value: string) => {
+    if (!draft) return;
+    const rho = parseFloat(value);
+    const correlations = { ...draft.correlations, [a]: { ...draft.correlations[a], [b]: rho } };
+    correlations[b] = { ...correlations[b], [a]: rho };
+    setDraft({ ...draft, correlations });
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const updated = addProfileVersion(profiles, draft, today());
+    onChange(updated);
+    setDraft(latestVersions(updated).find(profile => profile.id === draft.id) ?? null);
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfiles(JSON.parse(await file.text()));
+      const updated = importProfiles(profiles, imported, today());
+      onChange(updated);
+      setImportError('');
+      const first = latestVersions(updated).find(profile => profile.id === imported[0]?.id);
+      if (first) {
+        setSelectedId(first.id);
+        setDraft(first);
+      }
+    } catch (error: any) {
+      setImportError(error.message || 'Could not read the file');
+    }
+  };
+
+  const exportUrl = `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify({ profiles }, null, 2))}`;
+
+  if (!draft) return <p className="section-description">No capital-market profiles are loaded.</p>;
+
+  const problems = validateProfile(draft);
+  const history = profileHistory(profiles, draft.id);
+  const nextVersion = (history[0]?.version ?? 0) + 1;
+  const valid = problems.length === 0;
+
+  return (
+    <div className="strategies-section market-assumptions">
+      <h2>Capital Market Assumptions</h2>
+      <p className="section-description">
+        Expected returns, volatilities and correlations by asset class. Saving an edit creates a new
+        version; plans keep the version they were created with and every result names it.
+      </p>
+
+      <div className="simulation-controls">
+        <label>
+          Profile
+          <select value={selectedId} onChange={(e) => select(e.target.value)}>
+            {latest.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name} v{profile.version}</option>
+            ))}
+            {!latest.some(profile => profile.id === selectedId) && <option value={selectedId}>{draft.name} (new)</option>}
+          </select>
+        </label>
+        <button className="action-btn" onClick={newProfile}>Duplicate</button>
+        <label className="action-btn">
+          Import JSON
+          <input type="file" accept="application/json,.json" hidden onChange={importFile} />
+        </label>
+        <a className="action-btn" href={exportUrl} download="capitalMarketAssumptions.json">Export JSON</a>
+      </div>
+      {importError && <p className="detail-note">Import failed: {importError}</p>}
+
+      <div className="detail-section">
+        <div className="detail-section-header">
+          <h3>Edit</h3>
+          <label>
+            Name
+            <input type="text" className="profile-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          </label>
+        </div>
+        <table className="projection-table">
+          <thead>
+            <tr>
+              <th>Asset Class</th>
+              <th>Expected Return (%)</th>
+              <th>Volatility (%)</th>
+              {ASSET_CLASSES.map(asset => <th key={asset}>ρ {ASSET_CLASS_LABELS[asset]}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {ASSET_CLASSES.map(a => (
+              <tr key={a}>
+                <td>{ASSET_CLASS_LABELS[a]}</td>
+                <td>
+                  <input
+                    type="number"
+                    step={0.1}
+                    value={Math.round(draft.assets[a].expectedReturn * 1000) / 10}
+                    onChange={(e) => setAsset(a, 'expectedReturn', e.target.value)}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    step={0.1}
+                    min={0}
+                    value={Math.round(draft.assets[a].volatility * 1000) / 10}
+                    onChange={(e) => setAsset(a, 'volatility', e.target.value)}
+                  />
+                </td>
+                {ASSET_CLASSES.map(b => (
+                  <td key={b}>
+                    <input
+                      type="number"
+                      step={0.05}
+                      min={-1}
+                      max={1}
+                      disabled={a === b}
+                      value={draft.correlations[a][b]}
+                      onChange={(e) => setCorrelation(a, b, e.target.value)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="detail-note">
+          {valid
+            ? `A 60/35/5 mix returns ${formatPercent(portfolioExpectedReturn(draft, REFERENCE_ALLOCATION))} a year with ` +
+              `${formatPercent(portfolioVolatility(draft, REFERENCE_ALLOCATION))} volatility; plans without a glide path use this volatility.`
+            : problems.join('. ') + '.'}
+        </p>
+        <button className="action-btn" disabled={!valid} onClick={save}>Save as v{nextVersion}</button>
+      </div>
+
+      {history.length > 0 && (
+        <div className="detail-section">
+          <h3>Version History</h3>
+          <table className="projection-table">
+            <thead>
+              <tr>
+                <th>Version</th>
+                <th>Effective</th>
+                <th>Name</th>
+                {ASSET_CLASSES.map(asset => <th key={asset}>{ASSET_CLASS_LABELS[asset]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(profile => (
+                <tr key={profile.version} className={profile.version === history[0].version ? 'current' : ''}>
+                  <td>v{profile.version}</td>
+                  <td>{profile.effectiveDate}</td>
+                  <td>{profile.name}</td>
+                  {ASSET_CLASSES.map(asset => (
+                    <td key={asset}>
+                      {formatPercent(profile.assets[asset].expectedReturn)} ± {formatPercent(profile.assets[asset].volatility)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs, averageExpectedReturn } from '../simulation/projection';
+import { DEFAULT_LIFE_EXPECTANCY } from '../simulation/socialSecurity';
+import { HouseholdMemberId, MEMBER_LABELS, otherMember } from '../simulation/household';
+import { Pension, compareLumpSum } from '../simulation/pension';
+import { formatCurrency, formatPercent } from '../format';
+
+// Lump sum assumed when the plan recorded no offer, as a multiple of the annual payment
+const DEFAULT_LUMP_SUM_MULTIPLE = 15;
+
+interface PensionPanelProps {
+  assumptions: ProjectionInputs;
+  pensions: Pension[];
+}
+
+export default function PensionPanel({ assumptions, pensions }: PensionPanelProps) {
+  const [lumpSums, setLumpSums] = useState(() =>
+    pensions.map(p => p.lumpSumOffer ?? p.annualAmount * DEFAULT_LUMP_SUM_MULTIPLE)
+  );
+  const household = assumptions.household;
+  const planStartAge = assumptions.startAge ?? DEFAULT_RETIREMENT_AGE;
+
+  const currentAge = (member: HouseholdMemberId) =>
+    member === 'spouse' && household ? planStartAge + household.spouseAgeOffset : planStartAge;
+
+  // Each member's life expectancy in their own age
+  const lifeExpectancy = (member: HouseholdMemberId) =>
+    household?.lifeExpectancy[member] ??
+    (member === 'primary' ? assumptions.socialSecurity?.primary.lifeExpectancy : undefined) ??
+    DEFAULT_LIFE_EXPECTANCY;
+
+  // Follows the glide path and capital-market profile when the plan has them
+  const expectedReturn = useMemo(() => averageExpectedReturn(assumptions), [assumptions]);
+
+  const comparisons = useMemo(() => pensions.map((pension, i) => {
+    const owner = pension.owner;
+    const age = currentAge(owner);
+    // Survivor payments run from the owner's life expectancy to the spouse's
+    let survivorYears = 0;
+    if (household && pension.survivorShare > 0) {
+      const spouse = otherMember(owner);
+      const spouseEnd = lifeExpectancy(spouse) - currentAge(spouse) + age;
+      survivorYears = Math.max(0, spouseEnd - lifeExpectancy(owner));
+    }
+    return compareLumpSum(
+      { ...pension, startAge: pension.startAge ?? age },
+      lumpSums[i],
+      age,
+      lifeExpectancy(owner),
+      expectedReturn,
+      survivorYears
+    );
+  }), [pensions, lumpSums, assumptions, expectedReturn]);
+
+  const updateLumpSum = (index: number, value: number) =>
+    setLumpSums(lumpSums.map((lumpSum, i) => (i === index ? value : lumpSum)));
+
+  return (
+    <div className="detail-section">
+      <h3>Pensions</h3>
+      <p className="detail-note">
+        The implied discount rate is the return at which the pension's expected payments are worth the lump sum.
+        When it beats the portfolio's expected return of {formatPercent(expectedReturn)}, keeping the
+        pension pays more than investing the lump sum would.
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Owner</th>
+            <th>Annual</th>
+            <th>Starts</th>
+            <th>COLA</th>
+            <th>Survivor</th>
+            <th>Lump Sum</th>
+            <th>Implied Rate</th>
+            <th>Value at Expected Return</th>
+            <th>Prefer</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pensions.map((pension, i) => (
+            <tr key={`${pension.owner}-${i}`}>
+              <td>{MEMBER_LABELS[pension.owner]}</td>
+              <td>{formatCurrency(pension.annualAmount)}</td>
+              <td>{pension.startAge ?? currentAge(pension.owner)}</td>
+              <td>{pension.cola ? formatPercent(pension.cola) : 'None'}</td>
+              <td>{formatPercent(pension.survivorShare, 0)}</td>
+              <td>
+                <input
+                  type="number"
+                  min={0}
+                  value={lumpSums[i]}
+                  onChange={(e) => updateLumpSum(i, Math.max(0, parseFloat(e.target.value) || 0))}
+                />
+              </td>
+              <td>{formatPercent(comparisons[i].impliedDiscountRate)}</td>
+              <td>{formatCurrency(comparisons[i].pensionValue)}</td>
+              <td className={comparisons[i].prefer === 'pension' ? 'survived' : ''}>
+                {comparisons[i].prefer === 'pension' ? 'Pension' : 'Lump sum'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
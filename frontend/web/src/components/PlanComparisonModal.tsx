@@ -0,0 +1,363 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { RetirementPlan } from '../type/plan';
+import { CashflowProjection, DEFAULT_RETIREMENT_AGE, ProjectionInputs, projectCashflows } from '../simulation/projection';
+import { DEFAULT_SEED, DEFAULT_TRIALS, MonteCarloResult, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import { GLIDE_PATH_LABELS } from '../simulation/glidePath';
+import { applyWhatIf } from '../simulation/comparison';
+import { formatProfileVersion, profileVersion } from '../simulation/capitalMarkets';
+import { INFLATION_MODEL_LABELS } from '../simulation/inflation';
+import { RETURN_MODEL_LABELS } from '../simulation/returnGenerators';
+import { SPENDING_PROFILE_LABELS } from '../simulation/spendingProfile';
+import { getStrategyPreset } from '../simulation/strategies';
+import { formatCurrency, formatPercent } from '../format';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+// Columns in the comparison, saved plans and what-ifs together
+export const MAX_COMPARED_PLANS = 4;
+const MIN_COMPARED_PLANS = 2;
+
+const PLAN_COLORS = ['#ffffff', '#4caf50', '#2196f3', '#9c27b0'];
+
+type ComparedPlan = RetirementPlan & { assumptions: ProjectionInputs };
+
+// Edits a what-if makes to the plan it starts from
+interface WhatIfDraft {
+  baseId: string;
+  annualSpending: string;
+  returnRate: string; // percent; unused when the plan follows a glide path
+  retirementAge: string;
+}
+
+const draftFrom = (plan: ComparedPlan): WhatIfDraft => ({
+  baseId: plan.id,
+  annualSpending: String(Math.round(plan.assumptions.annualSpending)),
+  returnRate: String(+(plan.assumptions.returnRate * 100).toFixed(2)),
+  retirementAge: String(plan.assumptions.startAge ?? DEFAULT_RETIREMENT_AGE)
+});
+
+const parsed = (value: number) => (Number.isFinite(value) ? value : undefined);
+
+// A temporary variant of a saved plan
+const whatIfPlan = (base: ComparedPlan, draft: WhatIfDraft, index: number): ComparedPlan => ({
+  ...base,
+  id: `what-if-${index}-${base.id}`,
+  retirementGoal: `What-if ${index}: ${base.retirementGoal}`,
+  assumptions: applyWhatIf(base.assumptions, {
+    annualSpending: parsed(parseFloat(draft.annualSpending)),
+    returnRate: parsed(parseFloat(draft.returnRate) / 100),
+    retirementAge: parsed(parseInt(draft.retirementAge, 10))
+  })
+});
+
+// Inputs shown side by side; a cell is highlighted when it differs from the first plan
+const INPUT_ROWS: { label: string; value: (plan: RetirementPlan, inputs: ProjectionInputs) => string }[] = [
+  { label: 'Strategy', value: plan => getStrategyPreset(plan.withdrawalStrategy).label },
+  { label: 'Starting Assets', value: (_, inputs) => formatCurrency(inputs.startingAssets) },
+  { label: 'Annual Spending', value: (_, inputs) => formatCurrency(inputs.annualSpending) },
+  { label: 'Spending Profile', value: (_, inputs) => SPENDING_PROFILE_LABELS[inputs.spending?.profile.kind ?? 'flat'] },
+  { label: 'Bequest Target', value: (_, inputs) => formatCurrency(inputs.spending?.bequestTarget ?? 0) },
+  {
+    label: 'Return',
+    value: (_, inputs) => inputs.glidePath ? GLIDE_PATH_LABELS[inputs.glidePath.kind] : formatPercent(inputs.returnRate)
+  },
+  {
+    label: 'Market Assumptions',
+    value: (_, inputs) => inputs.capitalMarkets ? formatProfileVersion(profileVersion(inputs.capitalMarkets)) : 'Default'
+  },
+  {
+    label: 'Simulated Returns',
+    value: (_, inputs) => inputs.returnModel ? RETURN_MODEL_LABELS[inputs.returnModel.kind] : 'Portfolio lognormal'
+  },
+  { label: 'Inflation', value: (_, inputs) => formatPercent(inputs.inflationRate) },
+  { label: 'Inflation Model', value: (_, inputs) => INFLATION_MODEL_LABELS[inputs.inflationModel?.kind ?? 'fixed'] },
+  { label: 'Retirement Age', value: (_, inputs) => String(inputs.startAge ?? DEFAULT_RETIREMENT_AGE) },
+  { label: 'Horizon', value: (_, inputs) => `${inputs.horizonYears} years` },
+  { label: 'Household', value: (_, inputs) => inputs.household ? 'Couple' : 'Single' }
+];
+
+interface PlanComparisonModalProps {
+  plans: RetirementPlan[];
+  onClose: () => void;
+}
+
+export default function PlanComparisonModal({ plans, onClose }: PlanComparisonModalProps) {
+  const saved = useMemo(() => plans
+    .filter((plan): plan is ComparedPlan => !!plan.assumptions)
+    .slice(0, MAX_COMPARED_PLANS), [plans]);
+  const [whatIfs, setWhatIfs] = useState<ComparedPlan[]>([]);
+  const [whatIfCount, setWhatIfCount] = useState(0);
+  const [draft, setDraft] = useState<WhatIfDraft | null>(() => (saved[0] ? draftFrom(saved[0]) : null));
+  const draftBase = saved.find(plan => plan.id === draft?.baseId);
+
+  // Simulations are kept per plan, so adding a what-if only runs the new one
+  const simulations = useMemo(
+    () => new WeakMap<ProjectionInputs, { projection: CashflowProjection; monteCarlo: MonteCarloResult }>(),
+    []
+  );
+  const compared = useMemo(() => [...saved, ...whatIfs].map(plan => {
+    let simulation = simulations.get(plan.assumptions);
+    if (!simulation) {
+      simulation = {
+        projection: projectCashflows(plan.assumptions),
+        monteCarlo: runMonteCarlo(plan.assumptions, {
+          trials: DEFAULT_TRIALS,
+          seed: DEFAULT_SEED,
+          distribution: planReturnDistribution(plan.assumptions)
+        })
+      };
+      simulations.set(plan.assumptions, simulation);
+    }
+    return { plan, ...simulation };
+  }), [saved, whatIfs, simulations]);
+
+  const canAddWhatIf = compared.length < MAX_COMPARED_PLANS;
+  const addWhatIf = () => {
+    if (!draft || !draftBase || !canAddWhatIf) return;
+    setWhatIfs([...whatIfs, whatIfPlan(draftBase, draft, whatIfCount + 1)]);
+    setWhatIfCount(whatIfCount + 1);
+  };
+
+  // Results where higher is better; the best plan in each row is highlighted
+  const resultRows = [
+    { label: 'Success Rate', values: compared.map(c => c.monteCarlo.successProbability), format: formatPercent },
+    {
+      label: 'Median Ending (today\'s $)',
+      values: compared.map(c => c.monteCarlo.realEndingBalancePercentiles[50]),
+      format: formatCurrency
+    },
+    {
+      label: '10th Pct Ending (today\'s $)',
+      values: compared.map(c => c.monteCarlo.realEndingBalancePercentiles[10]),
+      format: formatCurrency
+    },
+    {
+      label: 'Projected Ending (today\'s $)',
+      values: compared.map(c => c.projection.endingBalance / c.projection.endingPriceLevel),
+      format: formatCurrency
+    },
+    {
+      label: 'Median First-Year Income',
+      values: compared.map(c => c.monteCarlo.medianRealIncome[0] ?? 0),
+      format: formatCurrency
+    }
+  ];
+
+  // Charts share an age axis covering every plan
+  const ages = useMemo(() => {
+    const first = Math.min(...compared.map(c => c.plan.assumptions.startAge ?? DEFAULT_RETIREMENT_AGE));
+    const last = Math.max(...compared.map(c =>
+      (c.plan.assumptions.startAge ?? DEFAULT_RETIREMENT_AGE) + c.monteCarlo.medianRealIncome.length - 1));
+    return compared.length > 0 ? Array.from({ length: last - first + 1 }, (_, i) => first + i) : [];
+  }, [compared]);
+
+  const byAge = (startAge: number | undefined, values: number[]) =>
+    ages.map(age => values[age - (startAge ?? DEFAULT_RETIREMENT_AGE)] ?? null);
+
+  const chartData = (values: (c: typeof compared[number]) => number[]) => ({
+    labels: ages,
+    datasets: compared.map((c, i) => ({
+      label: c.plan.retirementGoal,
+      data: byAge(c.plan.assumptions.startAge, values(c)),
+      borderColor: PLAN_COLORS[i],
+      backgroundColor: PLAN_COLORS[i],
+      pointRadius: 0,
+      spanGaps: false
+    }))
+  });
+
+  const chartOptions = (yTitle: string) => ({
+    responsive: true,
+    plugins: { legend: { labels: { color: '#fff' } } },
+    scales: {
+      x: { title: { display: true, text: 'Age', color: '#fff' }, ticks: { color: '#fff' }, grid: { display: false } },
+      y: {
+        title: { display: true, text: yTitle, color: '#fff' },
+        ticks: { color: '#fff' },
+        grid: { color: 'rgba(255, 255, 255, 0.15)' }
+      }
+    }
+  });
+
+  const isBest = (values: number[], value: number) =>
+    compared.length > 1 && value === Math.max(...values) && values.some(other => other !== value);
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal detail-modal">
+        <div className="modal-header">
+          <h2>Compare Plans</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {draft && (
+            <div className="detail-section">
+              <div className="detail-section-header">
+                <h3>What-If</h3>
+                <div className="detail-controls">
+                  <label>
+                    Plan
+                    <select
+                      value={draft.baseId}
+                      onChange={(e) => {
+                        const base = saved.find(plan => plan.id === e.target.value);
+                        if (base) setDraft(draftFrom(base));
+                      }}
+                    >
+                      {saved.map(plan => <option key={plan.id} value={plan.id}>{plan.retirementGoal}</option>)}
+                    </select>
+                  </label>
+                  <label>
+                    Spending
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.annualSpending}
+                      onChange={(e) => setDraft({ ...draft, annualSpending: e.target.value })}
+                    />
+                  </label>
+                  {!draftBase?.assumptions.glidePath && (
+                    <label>
+                      Return (%)
+                      <input
+                        type="number"
+                        step={0.1}
+                        value={draft.returnRate}
+                        onChange={(e) => setDraft({ ...draft, returnRate: e.target.value })}
+                      />
+                    </label>
+                  )}
+                  <label>
+                    Retire at
+                    <input
+                      type="number"
+                      value={draft.retirementAge}
+                      onChange={(e) => setDraft({ ...draft, retirementAge: e.target.value })}
+                    />
+                  </label>
+                  <button className="action-btn" onClick={addWhatIf} disabled={!canAddWhatIf}>
+                    Add What-If
+                  </button>
+                </div>
+              </div>
+              <p className="detail-note">
+                What-ifs change a compared plan for this comparison only and are not saved; up
+                to {MAX_COMPARED_PLANS} plans and what-ifs can be compared.
+                {whatIfs.length > 0 && ' Remove: '}
+                {whatIfs.map(plan => (
+                  <button
+                    key={plan.id}
+                    className="action-btn"
+                    onClick={() => setWhatIfs(whatIfs.filter(other => other.id !== plan.id))}
+                  >
+                    {plan.retirementGoal}
+                  </button>
+                ))}
+              </p>
+            </div>
+          )}
+
+          {compared.length < MIN_COMPARED_PLANS ? (
+            <p className="detail-note">Add a what-if or select another plan to compare.</p>
+          ) : (
+            <>
+              <div className="detail-section">
+                <h3>Inputs</h3>
+                <p className="detail-note">Inputs that differ from the first plan are highlighted.</p>
+                <table className="projection-table comparison-table">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      {compared.map(({ plan }) => <th key={plan.id}>{plan.retirementGoal}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {INPUT_ROWS.map(row => {
+                      const values = compared.map(({ plan }) => row.value(plan, plan.assumptions));
+                      return (
+                        <tr key={row.label}>
+                          <td>{row.label}</td>
+                          {values.map((value, i) => (
+                            <td key={compared[i].plan.id} className={i > 0 && value !== values[0] ? 'differs' : ''}>
+                              {value}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="detail-section">
+                <h3>Results</h3>
+                <p className="detail-note">
+                  {DEFAULT_TRIALS.toLocaleString()} Monte Carlo trials per plan on the same seed; the best value in each row is
+                  highlighted.
+                </p>
+                <table className="projection-table comparison-table">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      {compared.map(({ plan }) => <th key={plan.id}>{plan.retirementGoal}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {resultRows.map(row => (
+                      <tr key={row.label}>
+                        <td>{row.label}</td>
+                        {row.values.map((value, i) => (
+                          <td key={compared[i].plan.id} className={isBest(row.values, value) ? 'best' : ''}>
+                            {row.format(value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr>
+                      <td>Projected Depletion</td>
+                      {compared.map(({ plan, projection }) => (
+                        <td key={plan.id} className={projection.depletionYear !== null ? 'depleted' : 'survived'}>
+                          {projection.depletionYear !== null ? `Year ${projection.depletionYear}` : 'None'}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="detail-section">
+                <h3>Median Income</h3>
+                <p className="detail-note">Median withdrawal plus other income across trials, in today's money.</p>
+                <div className="comparison-chart">
+                  <Line data={chartData(c => c.monteCarlo.medianRealIncome)} options={chartOptions('Income (today\'s $)')} />
+                </div>
+              </div>
+
+              <div className="detail-section">
+                <h3>Projected Balance</h3>
+                <p className="detail-note">Start-of-year balance at expected returns, in today's money.</p>
+                <div className="comparison-chart">
+                  <Line
+                    data={chartData(c => c.projection.years.map(row => row.startBalance / row.priceLevel))}
+                    options={chartOptions('Balance (today\'s $)')}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
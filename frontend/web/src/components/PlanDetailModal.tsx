@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { RetirementPlan } from '../type/plan';
+import { DEFAULT_RETIREMENT_AGE, DollarBasis, projectCashflows } from '../simulation/projection';
+import { INFLATION_MODEL_LABELS } from '../simulation/inflation';
+import { GLIDE_PATH_LABELS } from '../simulation/glidePath';
+import { SPENDING_PROFILE_LABELS } from '../simulation/spendingProfile';
+import { formatProfileVersion } from '../simulation/capitalMarkets';
+import { buildVpwTable } from '../simulation/vpw';
+import ProjectionTable from './ProjectionTable';
+import ClaimingAgePanel from './ClaimingAgePanel';
+import WithdrawalOrderPanel from './WithdrawalOrderPanel';
+import RothLadderPanel from './RothLadderPanel';
+import AnnuityPanel from './AnnuityPanel';
+import BucketPanel from './BucketPanel';
+import LongevityPanel from './LongevityPanel';
+import HouseholdPanel from './HouseholdPanel';
+import HealthcarePanel from './HealthcarePanel';
+import PensionPanel from './PensionPanel';
+import SensitivityPanel from './SensitivityPanel';
+import ContractReferencePanel from './ContractReferencePanel';
+import StressTestPanel from './StressTestPanel';
+import StrategyComparisonPanel from './StrategyComparisonPanel';
+import BacktestPanel from './BacktestPanel';
+import DeferredPanel from './DeferredPanel';
+import { formatCurrency, formatPercent } from '../format';
+
+const VPW_TABLE_ALLOCATIONS = [0.2, 0.4, 0.6, 0.8, 1];
+
+interface PlanDetailModalProps {
+  plan: RetirementPlan;
+  onClose: () => void;
+}
+
+export default function PlanDetailModal({ plan, onClose }: PlanDetailModalProps) {
+  const [basis, setBasis] = useState<DollarBasis>('nominal');
+  const assumptions = plan.assumptions;
+
+  const vpwTable = useMemo(() => {
+    if (!assumptions || assumptions.strategy?.kind !== 'vpw') return null;
+    const startAge = assumptions.startAge ?? DEFAULT_RETIREMENT_AGE;
+    return buildVpwTable(startAge, startAge + assumptions.horizonYears, VPW_TABLE_ALLOCATIONS, assumptions.strategy);
+  }, [assumptions]);
+
+  const projection = useMemo(() => (assumptions ? projectCashflows(assumptions) : null), [assumptions]);
+  const rmdBindingYears = projection ? projection.years.filter(row => row.rmdBinding) : [];
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal detail-modal">
+        <div className="modal-header">
+          <h2>{plan.retirementGoal}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {assumptions && (
+            <div className="detail-section">
+              <div className="detail-section-header">
+                <h3>Assumptions</h3>
+                <label>
+                  Amounts
+                  <select value={basis} onChange={(e) => setBasis(e.target.value as DollarBasis)}>
+                    <option value="nominal">Nominal</option>
+                    <option value="real">Today's dollars</option>
+                  </select>
+                </label>
+              </div>
+              <div className="assumption-grid">
+                <div><label>Starting Assets</label><span>{formatCurrency(assumptions.startingAssets)}</span></div>
+                <div><label>Annual Spending</label><span>{formatCurrency(assumptions.annualSpending)}</span></div>
+                {assumptions.spending && assumptions.spending.profile.kind !== 'flat' && (
+                  <div><label>Spending Profile</label><span>{SPENDING_PROFILE_LABELS[assumptions.spending.profile.kind]}</span></div>
+                )}
+                {assumptions.spending && assumptions.spending.bequestTarget > 0 && (
+                  <div><label>Bequest Target</label><span>{formatCurrency(assumptions.spending.bequestTarget)}</span></div>
+                )}
+                <div><label>Return</label><span>{formatPercent(assumptions.returnRate)}</span></div>
+                {projection?.marketAssumptions && (
+                  <div><label>Market Assumptions</label><span>{formatProfileVersion(projection.marketAssumptions)}</span></div>
+                )}
+                <div><label>Inflation</label><span>{formatPercent(assumptions.inflationRate)}</span></div>
+                {assumptions.inflationModel && assumptions.inflationModel.kind !== 'fixed' && (
+                  <div><label>Inflation Model</label><span>{INFLATION_MODEL_LABELS[assumptions.inflationModel.kind]}</span></div>
+                )}
+                <div><label>Retirement Age</label><span>{assumptions.startAge ?? DEFAULT_RETIREMENT_AGE}</span></div>
+                <div><label>Horizon</label><span>{assumptions.horizonYears} years</span></div>
+                {assumptions.glidePath && (
+                  <div><label>Glide Path</label><span>{GLIDE_PATH_LABELS[assumptions.glidePath.kind]}</span></div>
+                )}
+                {assumptions.annuity && (
+                  <div><label>Annuitized</label><span>{formatPercent(assumptions.annuity.allocation, 0)}</span></div>
+                )}
+                {assumptions.rmd && (
+                  <div><label>Tax-Deferred</label><span>{formatPercent(assumptions.rmd.taxDeferredShare, 0)}</span></div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {projection && (
+            <div className="detail-section">
+              <h3>Cashflow Projection</h3>
+              {assumptions?.rmd && (
+                <p className="detail-note">
+                  {rmdBindingYears.length > 0
+                    ? `Required minimum distributions exceed planned spending in ${rmdBindingYears.length} years (ages ${rmdBindingYears[0].age}–${rmdBindingYears[rmdBindingYears.length - 1].age}); those years are flagged below.`
+                    : `Required minimum distributions from age ${assumptions.rmd.startAge} stay below planned spending.`}
+                </p>
+              )}
+              {assumptions?.spending && assumptions.spending.bequestTarget > 0 && (
+                <p className="detail-note">
+                  {projection.bequestShortfall > 0
+                    ? `The projected ending balance falls ${formatCurrency(projection.bequestShortfall)} (today's money) short of the bequest target; simulated trials that miss it count as failures.`
+                    : `The projected ending balance meets the ${formatCurrency(assumptions.spending.bequestTarget)} bequest target in today's money.`}
+                </p>
+              )}
+              <ProjectionTable projection={projection} basis={basis} />
+            </div>
+          )}
+
+          {assumptions && (
+            <DeferredPanel title="Sensitivity">
+              <SensitivityPanel assumptions={assumptions} />
+            </DeferredPanel>
+          )}
+
+          {assumptions && (
+            <DeferredPanel title="Stress Tests">
+              <StressTestPanel assumptions={assumptions} basis={basis} />
+            </DeferredPanel>
+          )}
+
+          {assumptions?.strategy?.kind === 'bucket' && (
+            <BucketPanel assumptions={assumptions} config={assumptions.strategy} basis={basis} />
+          )}
+
+          {assumptions && (
+            <DeferredPanel title="Longevity Risk">
+              <LongevityPanel assumptions={assumptions} />
+            </DeferredPanel>
+          )}
+
+          {assumptions?.pensions && <PensionPanel assumptions={assumptions} pensions={assumptions.pensions} />}
+
+          {assumptions?.healthcare && (
+            <DeferredPanel title="Healthcare Costs">
+              <HealthcarePanel assumptions={assumptions} healthcare={assumptions.healthcare} />
+            </DeferredPanel>
+          )}
+
+          {assumptions?.household && (
+            <DeferredPanel title="Survivor Scenarios">
+              <HouseholdPanel assumptions={assumptions} household={assumptions.household} basis={basis} />
+            </DeferredPanel>
+          )}
+
+          {assumptions?.socialSecurity && (
+            <DeferredPanel title="Benefit Claiming Age">
+              <ClaimingAgePanel assumptions={assumptions} />
+            </DeferredPanel>
+          )}
+
+          {assumptions?.accounts && <WithdrawalOrderPanel assumptions={assumptions} />}
+
+          {assumptions?.accounts && <RothLadderPanel assumptions={assumptions} />}
+
+          {assumptions && (
+            <DeferredPanel title="Annuity Purchase">
+              <AnnuityPanel assumptions={assumptions} basis={basis} />
+            </DeferredPanel>
+          )}
+
+          {assumptions && <ContractReferencePanel assumptions={assumptions} />}
+
+          {assumptions && (
+            <DeferredPanel title="Strategy Comparison">
+              <StrategyComparisonPanel assumptions={assumptions} withdrawalStrategy={plan.withdrawalStrategy} basis={basis} />
+            </DeferredPanel>
+          )}
+
+          {vpwTable && (
+            <div className="detail-section">
+              <h3>VPW Withdrawal Rates</h3>
+              <p className="detail-note">Share of the portfolio withdrawn at each age, by stock allocation.</p>
+              <table className="projection-table">
+                <thead>
+                  <tr>
+                    <th>Age</th>
+                    {VPW_TABLE_ALLOCATIONS.map(allocation => (
+                      <th key={allocation}>{formatPercent(allocation, 0)} stocks</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {vpwTable.map(row => (
+                    <tr key={row.age}>
+                      <td>{row.age}</td>
+                      {row.rates.map((rate, i) => (
+                        <td key={VPW_TABLE_ALLOCATIONS[i]}>{formatPercent(rate)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {assumptions && (
+            <DeferredPanel title="Historical Backtest">
+              <BacktestPanel assumptions={assumptions} />
+            </DeferredPanel>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { CashflowProjection, DollarBasis, ProjectionYear, toDollarBasis } from '../simulation/projection';
+import { formatCurrency } from '../format';
+
+interface ProjectionTableProps {
+  projection: CashflowProjection;
+  basis?: DollarBasis;
+}
+
+export default function ProjectionTable({ projection, basis = 'nominal' }: ProjectionTableProps) {
+  const showRmd = projection.years.some(row => row.requiredDistribution > 0);
+  const showOtherIncome = projection.years.some(row => row.otherIncome > 0);
+  const showHealthcare = projection.years.some(row => row.healthcareCost > 0);
+  const showLumpExpenses = projection.years.some(row => row.lumpExpense > 0);
+  const showAllocation = projection.years.some(row => row.allocation);
+
+  const rowClassName = (row: ProjectionYear) => {
+    const classes: string[] = [];
+    if (projection.depletionYear !== null && row.year >= projection.depletionYear) classes.push('depleted');
+    if (row.rmdBinding) classes.push('rmd-binding');
+    return classes.join(' ');
+  };
+
+  const amount = (value: number, row: ProjectionYear) => formatCurrency(toDollarBasis(value, row.priceLevel, basis));
+
+  return (
+    <div className="projection-table-wrapper">
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Year</th>
+            <th>Age</th>
+            {showAllocation && <th title="Stocks / bonds / cash">Allocation</th>}
+            <th>Balance</th>
+            <th>Withdrawal</th>
+            {showRmd && <th>RMD</th>}
+            {showOtherIncome && <th>Benefits</th>}
+            {showHealthcare && <th>Healthcare</th>}
+            {showLumpExpenses && <th>One-off</th>}
+            <th>Real Income</th>
+          </tr>
+        </thead>
+        <tbody>
+          {projection.years.map(row => (
+            <tr key={row.year} className={rowClassName(row)}>
+              <td>{row.year}</td>
+              <td>{row.age}</td>
+              {showAllocation && (
+                <td>
+                  {row.allocation
+                    ? `${Math.round(row.allocation.stocks * 100)}/${Math.round(row.allocation.bonds * 100)}/${Math.round(row.allocation.cash * 100)}`
+                    : '–'}
+                </td>
+              )}
+              <td>{amount(row.startBalance, row)}</td>
+              <td>{amount(row.withdrawal, row)}</td>
+              {showRmd && (
+                <td title={row.rmdBinding ? 'RMD exceeds the strategy withdrawal' : undefined}>
+                  {row.requiredDistribution > 0 ? amount(row.requiredDistribution, row) : '–'}
+                  {row.rmdBinding && <span className="rmd-flag">RMD</span>}
+                </td>
+              )}
+              {showOtherIncome && <td>{amount(row.otherIncome, row)}</td>}
+              {showHealthcare && <td>{amount(row.healthcareCost, row)}</td>}
+              {showLumpExpenses && <td>{row.lumpExpense > 0 ? amount(row.lumpExpense, row) : '–'}</td>}
+              <td>{formatCurrency(row.realIncome)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
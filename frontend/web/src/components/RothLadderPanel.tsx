@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectionInputs } from '../simulation/projection';
+import { TAX_SCHEDULES } from '../simulation/taxes';
+import { DEFAULT_SEQUENCING } from '../simulation/taxSequencing';
+import { planRothConversions } from '../simulation/rothLadder';
+import { formatCurrency, formatPercent } from '../format';
+
+const TARGET_BRACKET_RATES = [0.12, 0.22, 0.24];
+
+interface RothLadderPanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function RothLadderPanel({ assumptions }: RothLadderPanelProps) {
+  const [scheduleIndex, setScheduleIndex] = useState(0);
+  const [targetBracketRate, setTargetBracketRate] = useState(0.12);
+  const accounts = assumptions.accounts;
+
+  const ladder = useMemo(() => {
+    if (!accounts || accounts.taxDeferred <= 0) return null;
+    return planRothConversions(
+      assumptions,
+      'conventional',
+      { ...DEFAULT_SEQUENCING, accounts, taxSchedule: TAX_SCHEDULES[scheduleIndex] },
+      { targetBracketRate }
+    );
+  }, [assumptions, accounts, scheduleIndex, targetBracketRate]);
+
+  if (!ladder) return null;
+
+  const netBenefit = ladder.futureTaxSavings - ladder.conversionTaxCost;
+  const rows = ladder.years.filter(year => year.conversion > 0 || year.rmdWithoutLadder > 0);
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Roth Conversion Ladder</h3>
+        <div className="detail-controls">
+          <label>
+            Filing
+            <select value={scheduleIndex} onChange={(e) => setScheduleIndex(parseInt(e.target.value, 10))}>
+              {TAX_SCHEDULES.map((schedule, i) => (
+                <option key={schedule.name} value={i}>{schedule.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Convert to
+            <select value={targetBracketRate} onChange={(e) => setTargetBracketRate(parseFloat(e.target.value))}>
+              {TARGET_BRACKET_RATES.map(rate => (
+                <option key={rate} value={rate}>{formatPercent(rate, 0)} bracket</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+      <div className="assumption-grid">
+        <div><label>Total Converted</label><span>{formatCurrency(ladder.totalConverted)}</span></div>
+        <div><label>Tax Cost Now</label><span>{formatCurrency(ladder.conversionTaxCost)}</span></div>
+        <div><label>Future Tax Savings</label><span>{formatCurrency(ladder.futureTaxSavings)}</span></div>
+        <div><label>RMD Reduction</label><span>{formatCurrency(ladder.totalRmdReduction)}</span></div>
+        <div>
+          <label>Net Tax Effect</label>
+          <span className={netBenefit >= 0 ? 'positive' : 'negative'}>{formatCurrency(netBenefit)}</span>
+        </div>
+      </div>
+      <div className="projection-table-wrapper">
+        <table className="projection-table">
+          <thead>
+            <tr>
+              <th>Age</th>
+              <th>Conversion</th>
+              <th>Tax (ladder)</th>
+              <th>Tax (none)</th>
+              <th>RMD (ladder)</th>
+              <th>RMD (none)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(year => (
+              <tr key={year.year}>
+                <td>{year.age}</td>
+                <td>{year.conversion > 0 ? formatCurrency(year.conversion) : '–'}</td>
+                <td>{formatCurrency(year.taxWithLadder)}</td>
+                <td>{formatCurrency(year.taxWithoutLadder)}</td>
+                <td>{formatCurrency(year.rmdWithLadder)}</td>
+                <td>{formatCurrency(year.rmdWithoutLadder)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { BarElement, CategoryScale, Chart as ChartJS, Legend, LinearScale, Tooltip } from 'chart.js';
+import { ProjectionInputs } from '../simulation/projection';
+import { DEFAULT_SEED, PANEL_TRIALS, planReturnDistribution } from '../simulation/monteCarlo';
+import {
+  DEFAULT_SENSITIVITY_STEPS,
+  SENSITIVITY_INPUTS,
+  SENSITIVITY_LABELS,
+  SensitivityInput,
+  SensitivitySteps,
+  runSensitivity
+} from '../simulation/sensitivity';
+import { formatPercent } from '../format';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+// Steps are edited in display units: percent for the rates and spending, years for the ages
+const STEP_UNITS: Record<SensitivityInput, { label: string; scale: number }> = {
+  returnRate: { label: 'Return ± (pts)', scale: 100 },
+  inflationRate: { label: 'Inflation ± (pts)', scale: 100 },
+  spending: { label: 'Spending ± (%)', scale: 100 },
+  retirementAge: { label: 'Retire ± (yrs)', scale: 1 },
+  lifeExpectancy: { label: 'Life ± (yrs)', scale: 1 }
+};
+
+const LOWERED_COLOR = 'rgba(255, 82, 82, 0.8)';
+const RAISED_COLOR = 'rgba(76, 175, 80, 0.8)';
+
+interface SensitivityPanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function SensitivityPanel({ assumptions }: SensitivityPanelProps) {
+  const [steps, setSteps] = useState<SensitivitySteps>(DEFAULT_SENSITIVITY_STEPS);
+
+  const report = useMemo(() => runSensitivity(assumptions, steps, {
+    trials: PANEL_TRIALS,
+    seed: DEFAULT_SEED,
+    distribution: planReturnDistribution(assumptions)
+  }), [assumptions, steps]);
+
+  const stepLabel = (input: SensitivityInput) => {
+    const step = steps[input];
+    switch (input) {
+      case 'returnRate':
+      case 'inflationRate':
+      case 'spending':
+        return `${SENSITIVITY_LABELS[input]} ±${formatPercent(step)}`;
+      default:
+        return `${SENSITIVITY_LABELS[input]} ±${step} yrs`;
+    }
+  };
+
+  // Floating bars from the base success rate out to each variant's rate
+  const base = report.baseSuccess * 100;
+  const data = {
+    labels: report.rows.map(row => stepLabel(row.input)),
+    datasets: [
+      {
+        label: 'Lowered',
+        data: report.rows.map(row => [base, row.lowerSuccess * 100] as [number, number]),
+        backgroundColor: LOWERED_COLOR
+      },
+      {
+        label: 'Raised',
+        data: report.rows.map(row => [base, row.higherSuccess * 100] as [number, number]),
+        backgroundColor: RAISED_COLOR
+      }
+    ]
+  };
+
+  const options = {
+    indexAxis: 'y' as const,
+    responsive: true,
+    plugins: {
+      legend: { labels: { color: '#fff' } },
+      tooltip: {
+        callbacks: {
+          label: (context: { dataset: { label?: string }; raw: unknown }) => {
+            const [, value] = context.raw as [number, number];
+            return `${context.dataset.label}: ${value.toFixed(1)}% success`;
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        min: 0,
+        max: 100,
+        title: { display: true, text: 'Success rate (%)', color: '#fff' },
+        ticks: { color: '#fff' },
+        grid: { color: 'rgba(255, 255, 255, 0.15)' }
+      },
+      y: {
+        stacked: true,
+        ticks: { color: '#fff' },
+        grid: { display: false }
+      }
+    }
+  };
+
+  const updateStep = (input: SensitivityInput, value: string) => {
+    const parsed = parseFloat(value);
+    setSteps({ ...steps, [input]: isNaN(parsed) ? 0 : Math.max(0, parsed) / STEP_UNITS[input].scale });
+  };
+
+  const top = report.rows[0];
+
+  return (
+    <div className="detail-section">
+      <h3>Sensitivity</h3>
+      <p className="detail-note">
+        Each input is lowered and raised by its step with everything else held at the plan's values.
+        Base success is {formatPercent(report.baseSuccess)}
+        {top && <>; {SENSITIVITY_LABELS[top.input].toLowerCase()} moves it the most, by {formatPercent(top.swing)}</>}.
+        {assumptions.glidePath && ' Return is not varied because the glide path sets expected returns by asset class.'}
+        {assumptions.longevity && ' Life expectancy is tested as a fixed horizon rather than the mortality table.'}
+      </p>
+      <div className="detail-controls sensitivity-steps">
+        {SENSITIVITY_INPUTS.filter(input => input !== 'returnRate' || !assumptions.glidePath).map(input => (
+          <label key={input}>
+            {STEP_UNITS[input].label}
+            <input
+              type="number"
+              min={0}
+              step={STEP_UNITS[input].scale === 1 ? 1 : 0.5}
+              value={+(steps[input] * STEP_UNITS[input].scale).toFixed(2)}
+              onChange={(e) => updateStep(input, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="tornado-chart">
+        <Bar data={data} options={options} />
+      </div>
+    </div>
+  );
+}
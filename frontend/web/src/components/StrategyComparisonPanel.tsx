@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { DollarBasis, ProjectionInputs, projectCashflows, toDollarBasis } from '../simulation/projection';
+import { DEFAULT_SEED, PANEL_TRIALS, planReturnDistribution, runMonteCarlo } from '../simulation/monteCarlo';
+import { STRATEGY_PRESETS } from '../simulation/strategies';
+import { formatCurrency, formatPercent } from '../format';
+
+interface StrategyComparisonPanelProps {
+  assumptions: ProjectionInputs;
+  withdrawalStrategy: string;
+  basis: DollarBasis;
+}
+
+export default function StrategyComparisonPanel({ assumptions, withdrawalStrategy, basis }: StrategyComparisonPanelProps) {
+  // Each preset applied to this plan's assets at the preset's own initial rate;
+  // the plan's own strategy keeps its saved spending and settings
+  const comparison = useMemo(() => Object.values(STRATEGY_PRESETS).map(preset => {
+    const inputs = preset.id === withdrawalStrategy ? assumptions : {
+      ...assumptions,
+      annualSpending: assumptions.startingAssets * preset.withdrawalRate,
+      strategy: preset.strategy
+    };
+    return {
+      preset,
+      projection: projectCashflows(inputs),
+      monteCarlo: runMonteCarlo(inputs, {
+        trials: PANEL_TRIALS,
+        seed: DEFAULT_SEED,
+        distribution: planReturnDistribution(assumptions)
+      })
+    };
+  }), [assumptions, withdrawalStrategy]);
+
+  return (
+    <div className="detail-section">
+      <h3>Strategy Comparison</h3>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Strategy</th>
+            <th>First Withdrawal</th>
+            <th>Projected Ending</th>
+            <th>Success Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.map(({ preset, projection, monteCarlo }) => (
+            <tr key={preset.id} className={preset.id === withdrawalStrategy ? 'current' : ''}>
+              <td>{preset.label}</td>
+              <td>{formatCurrency(projection.years[0]?.withdrawal ?? 0)}</td>
+              <td>{formatCurrency(toDollarBasis(projection.endingBalance, projection.endingPriceLevel, basis))}</td>
+              <td>{formatPercent(monteCarlo.successProbability)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
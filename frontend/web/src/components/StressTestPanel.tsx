@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { DollarBasis, ProjectionInputs, toDollarBasis } from '../simulation/projection';
+import { DEFAULT_STOCK_ALLOCATION } from '../simulation/backtest';
+import { runStressTests } from '../simulation/stressTests';
+import { formatCurrency } from '../format';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const SCENARIO_COLORS = ['#ffffff', '#ff5252', '#ffeb3b', '#2196f3', '#9c27b0'];
+
+interface StressTestPanelProps {
+  assumptions: ProjectionInputs;
+  basis: DollarBasis;
+}
+
+export default function StressTestPanel({ assumptions, basis }: StressTestPanelProps) {
+  const [yearsIn, setYearsIn] = useState(0);
+  const [stockAllocation, setStockAllocation] = useState(DEFAULT_STOCK_ALLOCATION * 100);
+
+  // Kept within the horizon, which a plan edit can shorten after the value was entered
+  const lastStartYear = Math.max(0, assumptions.horizonYears - 1);
+  const startYear = Math.min(yearsIn, lastStartYear);
+
+  const results = useMemo(
+    () => runStressTests(assumptions, { startYear, stockAllocation: stockAllocation / 100 }),
+    [assumptions, startYear, stockAllocation]
+  );
+
+  const ages = results[0]?.projection.years.map(row => row.age) ?? [];
+  const data = {
+    labels: ages,
+    datasets: results.map((result, i) => ({
+      label: result.scenario.label,
+      data: result.projection.years.map(row => toDollarBasis(row.startBalance, row.priceLevel, basis)),
+      borderColor: SCENARIO_COLORS[i],
+      backgroundColor: SCENARIO_COLORS[i],
+      pointRadius: 0
+    }))
+  };
+
+  const options = {
+    responsive: true,
+    plugins: { legend: { labels: { color: '#fff' } } },
+    scales: {
+      x: { title: { display: true, text: 'Age', color: '#fff' }, ticks: { color: '#fff' }, grid: { display: false } },
+      y: {
+        title: { display: true, text: basis === 'real' ? "Balance (today's $)" : 'Balance', color: '#fff' },
+        ticks: { color: '#fff' },
+        grid: { color: 'rgba(255, 255, 255, 0.15)' }
+      }
+    }
+  };
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Stress Tests</h3>
+        <div className="detail-controls">
+          <label>
+            Years in
+            <input
+              type="number"
+              min={0}
+              max={lastStartYear}
+              value={startYear}
+              onChange={(e) => setYearsIn(Math.min(lastStartYear, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+            />
+          </label>
+          {!assumptions.glidePath && (
+            <label>
+              Stocks (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={stockAllocation}
+                onChange={(e) => setStockAllocation(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+      <p className="detail-note">
+        Each crash replaces expected returns and inflation for as long as it lasts, starting
+        {startYear === 0 ? ' at retirement' : ` ${startYear} years in`}; the other years follow the plan's assumptions.
+        {assumptions.glidePath && " Returns follow the plan's glide path, with cash earning bill rates."}
+      </p>
+      <div className="stress-chart">
+        <Line data={data} options={options} />
+      </div>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Scenario</th>
+            <th>Period</th>
+            <th>Ending Balance</th>
+            <th>Outcome</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(({ scenario, projection, survived }) => (
+            <tr key={scenario.id}>
+              <td>{scenario.label}</td>
+              <td>{scenario.description}</td>
+              <td>{formatCurrency(toDollarBasis(projection.endingBalance, projection.endingPriceLevel, basis))}</td>
+              <td className={survived ? 'survived' : 'depleted'}>
+                {survived
+                  ? 'Survived'
+                  : projection.depletionYear !== null
+                    ? `Depleted in year ${projection.depletionYear}`
+                    : 'Missed bequest target'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectionInputs } from '../simulation/projection';
+import { ACCOUNT_LABELS, ACCOUNT_TYPES } from '../simulation/accounts';
+import { TAX_SCHEDULES } from '../simulation/taxes';
+import {
+  DEFAULT_SEQUENCING,
+  ORDERING_LABELS,
+  WITHDRAWAL_ORDERINGS,
+  compareWithdrawalOrders
+} from '../simulation/taxSequencing';
+import { formatCurrency, formatPercent } from '../format';
+
+const FILL_BRACKET_RATES = [0.1, 0.12, 0.22, 0.24];
+
+interface WithdrawalOrderPanelProps {
+  assumptions: ProjectionInputs;
+}
+
+export default function WithdrawalOrderPanel({ assumptions }: WithdrawalOrderPanelProps) {
+  const [scheduleIndex, setScheduleIndex] = useState(0);
+  const [fillBracketRate, setFillBracketRate] = useState(DEFAULT_SEQUENCING.fillBracketRate);
+  const accounts = assumptions.accounts;
+
+  const results = useMemo(() => {
+    if (!accounts) return null;
+    return compareWithdrawalOrders(assumptions, {
+      ...DEFAULT_SEQUENCING,
+      accounts,
+      taxSchedule: TAX_SCHEDULES[scheduleIndex],
+      fillBracketRate
+    });
+  }, [assumptions, accounts, scheduleIndex, fillBracketRate]);
+
+  if (!accounts || !results) return null;
+
+  return (
+    <div className="detail-section">
+      <div className="detail-section-header">
+        <h3>Withdrawal Order &amp; Taxes</h3>
+        <div className="detail-controls">
+          <label>
+            Filing
+            <select value={scheduleIndex} onChange={(e) => setScheduleIndex(parseInt(e.target.value, 10))}>
+              {TAX_SCHEDULES.map((schedule, i) => (
+                <option key={schedule.name} value={i}>{schedule.name}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Fill to
+            <select value={fillBracketRate} onChange={(e) => setFillBracketRate(parseFloat(e.target.value))}>
+              {FILL_BRACKET_RATES.map(rate => (
+                <option key={rate} value={rate}>{formatPercent(rate, 0)} bracket</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+      <p className="detail-note">
+        {ACCOUNT_TYPES.map(type => `${ACCOUNT_LABELS[type]} ${formatCurrency(accounts[type])}`).join(' · ')}
+      </p>
+      <table className="projection-table">
+        <thead>
+          <tr>
+            <th>Ordering</th>
+            <th>After-Tax Income (today's $)</th>
+            <th>Lifetime Taxes</th>
+            <th>Ending Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {WITHDRAWAL_ORDERINGS.map(ordering => {
+            const result = results[ordering];
+            return (
+              <tr key={ordering}>
+                <td>{ORDERING_LABELS[ordering]}</td>
+                <td>{formatCurrency(result.totalRealAfterTaxIncome)}</td>
+                <td>{formatCurrency(result.lifetimeTaxes)}</td>
+                <td className={result.depletionYear !== null ? 'depleted' : ''}>
+                  {result.depletionYear !== null
+                    ? `Depleted in year ${result.depletionYear}`
+                    : formatCurrency(result.endingBalance)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+// format.ts
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 0
+});
+
+export function formatCurrency(value: number) {
+  return currencyFormatter.format(Math.round(value));
+}
+
+export function formatPercent(value: number, digits = 1) {
+  return `${(value * 100).toFixed(digits)}%`;
+}
@@ -0,0 +1,18 @@
+// accounts.ts
+// Account types a plan's assets can be held in.
+
+export type AccountType = "taxable" | "taxDeferred" | "roth";
+
+export type AccountBalances = Record<AccountType, number>;
+
+export const ACCOUNT_TYPES: AccountType[] = ["taxable", "taxDeferred", "roth"];
+
+export const ACCOUNT_LABELS: Record<AccountType, string> = {
+  taxable: "Taxable",
+  taxDeferred: "Tax-Deferred",
+  roth: "Roth"
+};
+
+export function totalBalance(accounts: AccountBalances): number {
+  return accounts.taxable + accounts.taxDeferred + accounts.roth;
+}
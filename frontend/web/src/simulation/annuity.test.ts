@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { DEFERRAL_CREDIT_RATE, annuityIncomeStream, annuityPayoutRate, spiaPayoutRate } from "./annuity";
+import { incomeAtAge } from "./income";
+import { projectCashflows } from "./projection";
+import { baseInputs } from "./testFixtures";
+
+describe("spiaPayoutRate", () => {
+  it("reads the table and interpolates between its ages", () => {
+    expect(spiaPayoutRate(65)).toBe(0.065);
+    expect(spiaPayoutRate(67.5)).toBeCloseTo((0.065 + 0.074) / 2);
+  });
+
+  it("holds the first and last rates outside the table", () => {
+    expect(spiaPayoutRate(50)).toBe(0.052);
+    expect(spiaPayoutRate(95)).toBe(0.16);
+  });
+});
+
+describe("annuityPayoutRate", () => {
+  it("credits a deferred annuity for each year of deferral", () => {
+    const dia = { kind: "dia" as const, allocation: 0.2, incomeStartAge: 80 };
+    expect(annuityPayoutRate(dia, 65)).toBeCloseTo(spiaPayoutRate(80) * Math.pow(1 + DEFERRAL_CREDIT_RATE, 15));
+  });
+
+  it("prices a deferred annuity starting now as an immediate one", () => {
+    expect(annuityPayoutRate({ kind: "dia", allocation: 0.2, incomeStartAge: 60 }, 65)).toBe(spiaPayoutRate(65));
+  });
+});
+
+describe("annuityIncomeStream", () => {
+  it("pays a level nominal amount from the income start age", () => {
+    const spia = { kind: "spia" as const, allocation: 0.25, incomeStartAge: 70 };
+    const stream = annuityIncomeStream(spia, 1000000, 65);
+    expect(stream.startAge).toBe(65);
+    expect(stream.annualAmount).toBeCloseTo(250000 * 0.065);
+    expect(incomeAtAge([stream], 85, 1.6)).toBeCloseTo(stream.annualAmount);
+  });
+
+  it("caps the premium at the starting assets", () => {
+    const stream = annuityIncomeStream({ kind: "spia", allocation: 1.5, incomeStartAge: 65 }, 1000000, 65);
+    expect(stream.annualAmount).toBeCloseTo(1000000 * 0.065);
+  });
+});
+
+describe("annuity in a projection", () => {
+  it("pays the premium from the starting assets and draws less from the rest", () => {
+    const annuity = { kind: "spia" as const, allocation: 0.2, incomeStartAge: 65 };
+    const [first] = projectCashflows({ ...baseInputs, annuity }).years;
+    expect(first.startBalance).toBe(800000);
+    expect(first.otherIncome).toBeCloseTo(200000 * 0.065);
+    expect(first.withdrawal).toBeCloseTo(45000 - 200000 * 0.065);
+  });
+});
@@ -0,0 +1,65 @@
+// annuity.ts
+// Single-premium immediate (SPIA) and deferred income (DIA) annuities priced
+// from a payout-rate table. Payments are level in nominal terms for life.
+
+import { IncomeStream } from "./income";
+
+export type AnnuityKind = "spia" | "dia";
+
+export interface AnnuityPurchase {
+  kind: AnnuityKind;
+  allocation: number; // share of starting assets used as the premium
+  incomeStartAge: number; // equal to the purchase age for a SPIA
+}
+
+// Indicative single-life SPIA payout rates (annual income / premium) by age
+const SPIA_PAYOUT_RATES: [number, number][] = [
+  [55, 0.052],
+  [60, 0.058],
+  [65, 0.065],
+  [70, 0.074],
+  [75, 0.087],
+  [80, 0.105],
+  [85, 0.13],
+  [90, 0.16]
+];
+
+// Yearly growth of a deferred payout from interest and mortality credits
+export const DEFERRAL_CREDIT_RATE = 0.07;
+
+export function spiaPayoutRate(age: number): number {
+  const [firstAge, firstRate] = SPIA_PAYOUT_RATES[0];
+  if (age <= firstAge) return firstRate;
+
+  for (let i = 1; i < SPIA_PAYOUT_RATES.length; i++) {
+    const [upperAge, upperRate] = SPIA_PAYOUT_RATES[i];
+    if (age <= upperAge) {
+      const [lowerAge, lowerRate] = SPIA_PAYOUT_RATES[i - 1];
+      return lowerRate + ((age - lowerAge) / (upperAge - lowerAge)) * (upperRate - lowerRate);
+    }
+  }
+  return SPIA_PAYOUT_RATES[SPIA_PAYOUT_RATES.length - 1][1];
+}
+
+// Annual income per unit of premium for a purchase at purchaseAge
+export function annuityPayoutRate(purchase: AnnuityPurchase, purchaseAge: number): number {
+  if (purchase.kind === "spia" || purchase.incomeStartAge <= purchaseAge) {
+    return spiaPayoutRate(purchaseAge);
+  }
+  const deferral = purchase.incomeStartAge - purchaseAge;
+  return spiaPayoutRate(purchase.incomeStartAge) * Math.pow(1 + DEFERRAL_CREDIT_RATE, deferral);
+}
+
+export function annuityPremium(purchase: AnnuityPurchase, startingAssets: number): number {
+  return Math.min(1, Math.max(0, purchase.allocation)) * startingAssets;
+}
+
+export function annuityIncomeStream(purchase: AnnuityPurchase, startingAssets: number, purchaseAge: number): IncomeStream {
+  const incomeStartAge = purchase.kind === "spia" ? purchaseAge : Math.max(purchaseAge, purchase.incomeStartAge);
+  return {
+    label: purchase.kind === "spia" ? "Immediate Annuity" : "Deferred Annuity",
+    startAge: incomeStartAge,
+    annualAmount: annuityPremium(purchase, startingAssets) * annuityPayoutRate(purchase, purchaseAge),
+    cola: 0
+  };
+}
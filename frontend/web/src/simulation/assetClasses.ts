@@ -0,0 +1,42 @@
+// assetClasses.ts
+// Asset classes a portfolio is split across, with the default return
+// assumptions used when a plan sets its allocation by asset class and has no
+// capital-market profile.
+
+import { HistoricalYear } from "./historicalReturns";
+
+export type AssetClass = "stocks" | "bonds" | "cash";
+
+export const ASSET_CLASSES: AssetClass[] = ["stocks", "bonds", "cash"];
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  stocks: "Stocks",
+  bonds: "Bonds",
+  cash: "Cash"
+};
+
+// Shares of the portfolio by asset class, summing to 1
+export type Allocation = Record<AssetClass, number>;
+
+// One year's return for each asset class
+export type AssetReturns = Record<AssetClass, number>;
+
+export interface AssetAssumptions {
+  expectedReturn: number; // arithmetic mean annual return
+  volatility: number; // standard deviation of annual returns
+}
+
+// A 60/35/5 mix of these roughly matches DEFAULT_RETURN_RATE and DEFAULT_VOLATILITY
+export const DEFAULT_ASSET_ASSUMPTIONS: Record<AssetClass, AssetAssumptions> = {
+  stocks: { expectedReturn: 0.062, volatility: 0.16 },
+  bonds: { expectedReturn: 0.035, volatility: 0.06 },
+  cash: { expectedReturn: 0.02, volatility: 0.01 }
+};
+
+export function portfolioReturn(allocation: Allocation, returns: AssetReturns): number {
+  return ASSET_CLASSES.reduce((total, asset) => total + allocation[asset] * returns[asset], 0);
+}
+
+export function historicalAssetReturns(history: HistoricalYear[]): AssetReturns[] {
+  return history.map(h => ({ stocks: h.stocks, bonds: h.bonds, cash: h.bills }));
+}
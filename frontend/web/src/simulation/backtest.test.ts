@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { runBacktest, runHistoricalWindow } from "./backtest";
+import { HISTORICAL_RETURNS } from "./historicalReturns";
+import { baseInputs } from "./testFixtures";
+
+describe("runHistoricalWindow", () => {
+  it("replays the window's blended returns and inflation", () => {
+    const history = HISTORICAL_RETURNS.slice(0, 2);
+    const window = runHistoricalWindow({ ...baseInputs, annualSpending: 0 }, history, 0.6);
+    const growth = history.reduce((total, h) => total * (1 + 0.6 * h.stocks + 0.4 * h.bonds), 1);
+    const priceLevel = history.reduce((total, h) => total * (1 + h.inflation), 1);
+    expect(window.startYear).toBe(history[0].year);
+    expect(window.endYear).toBe(history[1].year);
+    expect(window.projection.endingBalance).toBeCloseTo(1000000 * growth);
+    expect(window.realEndingBalance).toBeCloseTo(1000000 * growth / priceLevel);
+  });
+});
+
+describe("runBacktest", () => {
+  it("runs every rolling window of the dataset", () => {
+    const result = runBacktest(baseInputs, { stockAllocation: 0.6, windowYears: 30 });
+    expect(result.windows).toHaveLength(HISTORICAL_RETURNS.length - 29);
+    expect(result.windows[1].startYear).toBe(result.windows[0].startYear + 1);
+    expect(result.successRate).toBe(result.windows.filter(w => w.survived).length / result.windows.length);
+  });
+
+  it("ranks depleted windows below survivors and survivors by real ending balance", () => {
+    const result = runBacktest({ ...baseInputs, annualSpending: 60000 }, { stockAllocation: 0.6 });
+    expect(result.successRate).toBeGreaterThan(0);
+    expect(result.successRate).toBeLessThan(1);
+    expect(result.worst!.survived).toBe(false);
+    expect(result.best!.survived).toBe(true);
+    const survivors = result.windows.filter(w => w.survived).map(w => w.realEndingBalance);
+    expect(result.best!.realEndingBalance).toBe(Math.max(...survivors));
+  });
+
+  it("fails no window when nothing is withdrawn", () => {
+    expect(runBacktest({ ...baseInputs, annualSpending: 0 }, { stockAllocation: 0.6 }).successRate).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+// backtest.ts
+// Replays a plan over every rolling historical window of the bundled dataset.
+
+import { historicalAssetReturns } from "./assetClasses";
+import { glidePathReturns } from "./glidePath";
+import { HISTORICAL_RETURNS, HistoricalYear } from "./historicalReturns";
+import { CashflowProjection, ProjectionInputs, SIMULATION_YEARS, simulateCashflows } from "./projection";
+
+export const DEFAULT_STOCK_ALLOCATION = 0.6;
+
+export interface BacktestOptions {
+  stockAllocation: number; // remainder is held in bonds; plans with a glide path follow it instead
+  windowYears?: number;
+}
+
+export interface BacktestWindow {
+  startYear: number;
+  endYear: number;
+  projection: CashflowProjection;
+  realEndingBalance: number; // ending balance in start-year money
+  survived: boolean;
+}
+
+export interface BacktestResult {
+  windowYears: number;
+  windows: BacktestWindow[];
+  successRate: number;
+  worst: BacktestWindow | null;
+  median: BacktestWindow | null;
+  best: BacktestWindow | null;
+}
+
+// Failed windows rank below survivors (earlier depletion is worse); ties and
+// survivors are ordered by real ending balance.
+const compareWindows = (a: BacktestWindow, b: BacktestWindow) => {
+  const depletionA = a.projection.depletionYear ?? Infinity;
+  const depletionB = b.projection.depletionYear ?? Infinity;
+  if (depletionA !== depletionB) return depletionA - depletionB;
+  return a.realEndingBalance - b.realEndingBalance;
+};
+
+export function runHistoricalWindow(
+  inputs: ProjectionInputs,
+  history: HistoricalYear[],
+  stockAllocation: number
+): BacktestWindow {
+  const returns = inputs.glidePath
+    ? glidePathReturns(inputs.glidePath, historicalAssetReturns(history), inputs.horizonYears)
+    : history.map(h => stockAllocation * h.stocks + (1 - stockAllocation) * h.bonds);
+  const inflation = history.map(h => h.inflation);
+  const assetReturns = inputs.strategy?.kind === "bucket" ? historicalAssetReturns(history) : undefined;
+  const projection = simulateCashflows({ ...inputs, horizonYears: history.length }, returns, inflation, null, assetReturns);
+  const priceLevel = inflation.reduce((level, rate) => level * (1 + rate), 1);
+
+  return {
+    startYear: history[0].year,
+    endYear: history[history.length - 1].year,
+    projection,
+    realEndingBalance: projection.endingBalance / priceLevel,
+    survived: projection.depletionYear === null
+  };
+}
+
+export function runBacktest(inputs: ProjectionInputs, options: BacktestOptions): BacktestResult {
+  const windowYears = options.windowYears ?? SIMULATION_YEARS;
+  const windows: BacktestWindow[] = [];
+
+  for (let start = 0; start + windowYears <= HISTORICAL_RETURNS.length; start++) {
+    const history = HISTORICAL_RETURNS.slice(start, start + windowYears);
+    windows.push(runHistoricalWindow(inputs, history, options.stockAllocation));
+  }
+
+  const ranked = [...windows].sort(compareWindows);
+  const survivors = windows.filter(w => w.survived).length;
+
+  return {
+    windowYears,
+    windows,
+    successRate: windows.length > 0 ? survivors / windows.length : 0,
+    worst: ranked[0] ?? null,
+    median: ranked[Math.floor((ranked.length - 1) / 2)] ?? null,
+    best: ranked[ranked.length - 1] ?? null
+  };
+}
@@ -0,0 +1,77 @@
+// bucketPortfolio.ts
+// Balances of a bucket-strategy portfolio: a cash bucket sized in years of
+// withdrawals, a bond bucket behind it and the rest in equities. Each bucket
+// earns its own asset class's return. The projection engine runs these steps
+// every year for plans on the bucket strategy (see buckets.ts for the config).
+
+import { AssetReturns } from "./assetClasses";
+import { BucketConfig } from "./buckets";
+
+export interface BucketBalances {
+  cash: number;
+  bonds: number;
+  equities: number;
+}
+
+export interface BucketWithdrawal {
+  fromCash: number;
+  fromBonds: number;
+  fromEquities: number;
+}
+
+export const bucketTotal = (b: BucketBalances) => b.cash + b.bonds + b.equities;
+
+// Fills cash, then bonds, from the first year's spending need
+export function initialBuckets(total: number, firstNeed: number, config: BucketConfig): BucketBalances {
+  const cash = Math.min(total, firstNeed * config.cashYears);
+  const bonds = Math.min(total - cash, firstNeed * config.bondYears);
+  return { cash, bonds, equities: total - cash - bonds };
+}
+
+// Spends from cash first; a dry cash bucket forces sales of bonds, then equities
+export function withdrawFromBuckets(buckets: BucketBalances, amount: number): BucketWithdrawal {
+  const fromCash = Math.min(amount, buckets.cash);
+  buckets.cash -= fromCash;
+  const fromBonds = Math.min(amount - fromCash, buckets.bonds);
+  buckets.bonds -= fromBonds;
+  const fromEquities = Math.min(amount - fromCash - fromBonds, buckets.equities);
+  buckets.equities -= fromEquities;
+  return { fromCash, fromBonds, fromEquities };
+}
+
+export const growBuckets = (buckets: BucketBalances, r: AssetReturns): BucketBalances => ({
+  cash: Math.max(0, buckets.cash * (1 + r.cash)),
+  bonds: Math.max(0, buckets.bonds * (1 + r.bonds)),
+  equities: Math.max(0, buckets.equities * (1 + r.stocks))
+});
+
+// Moves up to `amount` from one bucket to another
+const transfer = (buckets: BucketBalances, from: keyof BucketBalances, to: keyof BucketBalances, amount: number) => {
+  const moved = Math.max(0, Math.min(amount, buckets[from]));
+  buckets[from] -= moved;
+  buckets[to] += moved;
+  return moved;
+};
+
+// Year-end refill for next year's need: equities top up bonds, bonds top up
+// cash, as the refill rule allows. Returns whether equities were sold.
+export function refillBuckets(buckets: BucketBalances, config: BucketConfig, nextNeed: number, equityGain: boolean): boolean {
+  const sellEquities = config.refillRule === "annual" || equityGain;
+  const refillCash = config.refillRule !== "onlyAfterEquityGain" || equityGain;
+  let refilled = false;
+  if (sellEquities) {
+    const bondGap = nextNeed * (config.cashYears + config.bondYears) - buckets.cash - buckets.bonds;
+    refilled = transfer(buckets, "equities", "bonds", bondGap) > 0;
+  }
+  if (refillCash) {
+    transfer(buckets, "bonds", "cash", nextNeed * config.cashYears - buckets.cash);
+  }
+  return refilled;
+}
+
+// One year of a bucket plan, as recorded on the projection
+export interface BucketYearState extends BucketWithdrawal {
+  cashDry: boolean; // the cash bucket could not cover the withdrawal
+  refilled: boolean; // equities were sold to refill the nearer buckets
+  endBalances: BucketBalances;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { growBuckets } from "./bucketPortfolio";
+import { DEFAULT_BUCKETS, simulateBuckets } from "./buckets";
+import { BUILT_IN_PROFILES } from "./capitalMarkets";
+import { runMonteCarlo } from "./monteCarlo";
+import { ProjectionInputs, expectedAssetReturns, expectedInflation, projectCashflows } from "./projection";
+import { baseInputs, monteCarloOptions as options } from "./testFixtures";
+
+const inputs: ProjectionInputs = { ...baseInputs, strategy: { kind: "bucket", ...DEFAULT_BUCKETS } };
+
+describe("simulateBuckets", () => {
+  it("reports the same balances as the plan's projection", () => {
+    const buckets = simulateBuckets(inputs, DEFAULT_BUCKETS, expectedAssetReturns(inputs), expectedInflation(inputs));
+    const projection = projectCashflows(inputs);
+    expect(buckets.endingBalance).toBeCloseTo(projection.endingBalance);
+    expect(projection.years[0].buckets?.endBalances).toEqual(buckets.years[0].endBalances);
+  });
+});
+
+describe("expectedAssetReturns", () => {
+  it("takes every bucket's expected return from the capital-market profile", () => {
+    const profile = BUILT_IN_PROFILES[0];
+    const [first] = expectedAssetReturns({ ...inputs, capitalMarkets: profile });
+    expect(first).toEqual({
+      stocks: profile.assets.stocks.expectedReturn,
+      bonds: profile.assets.bonds.expectedReturn,
+      cash: profile.assets.cash.expectedReturn
+    });
+  });
+});
+
+describe("growBuckets", () => {
+  it("never leaves a bucket below zero", () => {
+    const grown = growBuckets({ cash: 1000, bonds: 1000, equities: 1000 }, { stocks: -1.2, bonds: -1.1, cash: -1.5 });
+    expect(grown).toEqual({ cash: 0, bonds: 0, equities: 0 });
+  });
+});
+
+describe("runMonteCarlo with buckets", () => {
+  it("simulates the buckets, so the refill rule changes the outcome", () => {
+    const annual = runMonteCarlo({ ...inputs, strategy: { kind: "bucket", ...DEFAULT_BUCKETS, refillRule: "annual" } }, options);
+    const afterGain = runMonteCarlo({ ...inputs, strategy: { kind: "bucket", ...DEFAULT_BUCKETS, refillRule: "onlyAfterEquityGain" } }, options);
+    expect(annual.endingBalancePercentiles).not.toEqual(afterGain.endingBalancePercentiles);
+  });
+});
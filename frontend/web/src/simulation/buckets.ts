@@ -0,0 +1,79 @@
+// buckets.ts
+// Bucket strategy: spending comes out of a cash bucket holding a few years of
+// withdrawals, backed by a medium-term bond bucket and a long-term equity
+// bucket. At each year end the nearer buckets are refilled from the farther
+// ones according to the refill rule. The projection engine holds the buckets
+// (see bucketPortfolio.ts); this module reports them year by year.
+
+import { AssetReturns } from "./assetClasses";
+import { BucketBalances } from "./bucketPortfolio";
+import { ProjectionInputs, simulateCashflows } from "./projection";
+
+export type RefillRule = "annual" | "afterEquityGain" | "onlyAfterEquityGain";
+
+export const REFILL_RULES: RefillRule[] = ["annual", "afterEquityGain", "onlyAfterEquityGain"];
+
+export const REFILL_RULE_LABELS: Record<RefillRule, string> = {
+  annual: "Refill every year",
+  afterEquityGain: "Sell equities only after a gain",
+  onlyAfterEquityGain: "Refill only after an equity gain"
+};
+
+export interface BucketConfig {
+  cashYears: number; // years of withdrawals held in cash
+  bondYears: number; // years of withdrawals held in bonds after the cash runs out
+  refillRule: RefillRule;
+}
+
+export const DEFAULT_BUCKETS: BucketConfig = {
+  cashYears: 2,
+  bondYears: 5,
+  refillRule: "afterEquityGain"
+};
+
+export interface BucketYear {
+  year: number;
+  age: number;
+  withdrawal: number;
+  fromCash: number;
+  cashDry: boolean; // the cash bucket could not cover the withdrawal
+  refilled: boolean; // equities were sold to refill the nearer buckets
+  endBalances: BucketBalances;
+  startPriceLevel: number; // cumulative inflation when the withdrawal is taken
+  endPriceLevel: number; // cumulative inflation when end balances are reported
+}
+
+export interface BucketProjection {
+  years: BucketYear[];
+  cashDryYears: number[];
+  endingBalance: number;
+  depletionYear: number | null;
+}
+
+// Runs a bucket plan through the projection and reports its bucket balances
+export function simulateBuckets(
+  inputs: ProjectionInputs,
+  config: BucketConfig,
+  returns: AssetReturns[],
+  inflation: number[]
+): BucketProjection {
+  const projection = simulateCashflows({ ...inputs, strategy: { kind: "bucket", ...config } }, [], inflation, null, returns);
+  const years = projection.years.map((row, t): BucketYear => ({
+    year: row.year,
+    age: row.age,
+    withdrawal: row.withdrawal,
+    fromCash: row.buckets!.fromCash,
+    cashDry: row.buckets!.cashDry,
+    refilled: row.buckets!.refilled,
+    endBalances: row.buckets!.endBalances,
+    startPriceLevel: row.priceLevel,
+    endPriceLevel: projection.years[t + 1]?.priceLevel ?? projection.endingPriceLevel
+  }));
+
+  return {
+    years,
+    cashDryYears: years.filter(row => row.cashDry).map(row => row.year),
+    endingBalance: projection.endingBalance,
+    depletionYear: projection.depletionYear
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PROFILES, importProfiles, withBuiltInProfiles } from "./capitalMarkets";
+
+describe("importProfiles", () => {
+  it("skips versions that are already present unchanged", () => {
+    const exported = JSON.parse(JSON.stringify(BUILT_IN_PROFILES));
+    expect(importProfiles(BUILT_IN_PROFILES, exported, "2026-01-01")).toEqual(BUILT_IN_PROFILES);
+  });
+
+  it("adds a changed version as the next version of its id", () => {
+    const [first] = BUILT_IN_PROFILES;
+    const changed = { ...first, assets: { ...first.assets, stocks: { ...first.assets.stocks, expectedReturn: 0.09 } } };
+    const updated = importProfiles(BUILT_IN_PROFILES, [changed], "2026-01-01");
+    expect(updated).toHaveLength(BUILT_IN_PROFILES.length + 1);
+    expect(updated[updated.length - 1]).toMatchObject({ id: first.id, version: first.version + 1, effectiveDate: "2026-01-01" });
+  });
+});
+
+describe("withBuiltInProfiles", () => {
+  it("adds built-in versions missing from the stored profiles", () => {
+    const stored = BUILT_IN_PROFILES.slice(1);
+    const merged = withBuiltInProfiles(stored);
+    expect(merged).toHaveLength(BUILT_IN_PROFILES.length);
+    expect(merged).toContainEqual(BUILT_IN_PROFILES[0]);
+    expect(withBuiltInProfiles(BUILT_IN_PROFILES)).toEqual(BUILT_IN_PROFILES);
+  });
+});
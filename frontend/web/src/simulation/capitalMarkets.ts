@@ -0,0 +1,194 @@
+// capitalMarkets.ts
+// Capital-market assumption profiles: named sets of expected return and
+// volatility per asset class, with the correlations between the classes. A
+// saved profile version never changes; editing a profile adds a new version,
+// so every result can name the exact assumptions that produced it. The
+// built-in profiles load from capitalMarketAssumptions.json.
+
+import { ASSET_CLASSES, Allocation, AssetAssumptions, AssetClass } from "./assetClasses";
+import profilesJson from "./capitalMarketAssumptions.json";
+
+export type CorrelationMatrix = Record<AssetClass, Record<AssetClass, number>>;
+
+export interface CapitalMarketProfile {
+  id: string;
+  name: string;
+  version: number;
+  effectiveDate: string; // YYYY-MM-DD the version was saved
+  assets: Record<AssetClass, AssetAssumptions>;
+  correlations: CorrelationMatrix;
+}
+
+// What a simulation result records about the profile behind it
+export interface ProfileVersion {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export const profileVersion = ({ id, name, version }: CapitalMarketProfile): ProfileVersion => ({ id, name, version });
+
+export const formatProfileVersion = ({ name, version }: ProfileVersion) => `${name} v${version}`;
+
+// The mix DEFAULT_RETURN_RATE and DEFAULT_VOLATILITY are calibrated to. Plans
+// without a glide path take their return volatility from this mix.
+export const REFERENCE_ALLOCATION: Allocation = { stocks: 0.6, bonds: 0.35, cash: 0.05 };
+
+export function portfolioExpectedReturn(profile: CapitalMarketProfile, allocation: Allocation): number {
+  return ASSET_CLASSES.reduce((total, asset) => total + allocation[asset] * profile.assets[asset].expectedReturn, 0);
+}
+
+export function portfolioVolatility(profile: CapitalMarketProfile, allocation: Allocation): number {
+  let variance = 0;
+  for (const a of ASSET_CLASSES) {
+    for (const b of ASSET_CLASSES) {
+      variance += allocation[a] * allocation[b] *
+        profile.assets[a].volatility * profile.assets[b].volatility * profile.correlations[a][b];
+    }
+  }
+  return Math.sqrt(Math.max(0, variance));
+}
+
+// Lower-triangular L with L·Lᵀ equal to the correlation matrix, rows and
+// columns in ASSET_CLASSES order; null when the matrix is not positive
+// semidefinite and so cannot describe real returns
+export function choleskyFactor(correlations: CorrelationMatrix): number[][] | null {
+  const n = ASSET_CLASSES.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = correlations[ASSET_CLASSES[i]][ASSET_CLASSES[j]];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum < -1e-9) return null;
+        lower[i][i] = Math.sqrt(Math.max(0, sum));
+      } else {
+        lower[i][j] = lower[j][j] > 0 ? sum / lower[j][j] : 0;
+      }
+    }
+  }
+  return lower;
+}
+
+// Problems that make a profile unusable; empty when it is valid
+export function validateProfile(profile: CapitalMarketProfile): string[] {
+  const problems: string[] = [];
+  if (!profile.name.trim()) problems.push("Name is required");
+  for (const a of ASSET_CLASSES) {
+    const { expectedReturn, volatility } = profile.assets[a];
+    if (!isFinite(expectedReturn) || expectedReturn <= -1) problems.push(`${a} expected return is out of range`);
+    if (!isFinite(volatility) || volatility < 0) problems.push(`${a} volatility must not be negative`);
+    for (const b of ASSET_CLASSES) {
+      const rho = profile.correlations[a][b];
+      if (a === b && rho !== 1) problems.push(`${a} correlation with itself must be 1`);
+      if (!isFinite(rho) || rho < -1 || rho > 1) problems.push(`${a}/${b} correlation must be between -1 and 1`);
+      if (rho !== profile.correlations[b][a]) problems.push(`${a}/${b} correlation must be symmetric`);
+    }
+  }
+  if (problems.length === 0 && !choleskyFactor(profile.correlations)) {
+    problems.push("Correlations are inconsistent (the matrix is not positive semidefinite)");
+  }
+  return [...new Set(problems)];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+// The object under a key, or an empty one so missing fields read as undefined
+const recordAt = (record: Record<string, unknown>, key: string): Record<string, unknown> => {
+  const value = record[key];
+  return isRecord(value) ? value : {};
+};
+
+// Reads profiles from parsed JSON shaped like capitalMarketAssumptions.json
+export function parseProfiles(data: unknown): CapitalMarketProfile[] {
+  const entries = isRecord(data) && Array.isArray(data.profiles) ? data.profiles : null;
+  if (!entries) throw new Error("Expected an object with a profiles array");
+
+  return entries.map((entry: unknown, i: number) => {
+    if (!isRecord(entry) || !isRecord(entry.assets) || !isRecord(entry.correlations)) {
+      throw new Error(`Profile ${i + 1} is missing assets or correlations`);
+    }
+    const profile: CapitalMarketProfile = {
+      id: String(entry.id ?? ""),
+      name: String(entry.name ?? ""),
+      version: Number(entry.version) || 1,
+      effectiveDate: String(entry.effectiveDate ?? ""),
+      assets: {} as CapitalMarketProfile["assets"],
+      correlations: {} as CorrelationMatrix
+    };
+    for (const a of ASSET_CLASSES) {
+      const asset = recordAt(entry.assets, a);
+      const row = recordAt(entry.correlations, a);
+      profile.assets[a] = {
+        expectedReturn: Number(asset.expectedReturn),
+        volatility: Number(asset.volatility)
+      };
+      profile.correlations[a] = {} as Record<AssetClass, number>;
+      for (const b of ASSET_CLASSES) {
+        profile.correlations[a][b] = Number(row[b]);
+      }
+    }
+    const problems = validateProfile(profile);
+    if (!profile.id) problems.unshift("Id is required");
+    if (problems.length > 0) throw new Error(`Profile ${profile.name || i + 1}: ${problems[0]}`);
+    return profile;
+  });
+}
+
+export const BUILT_IN_PROFILES = parseProfiles(profilesJson);
+
+// Newest version of each profile, in first-seen order
+export function latestVersions(profiles: CapitalMarketProfile[]): CapitalMarketProfile[] {
+  const latest = new Map<string, CapitalMarketProfile>();
+  for (const profile of profiles) {
+    const current = latest.get(profile.id);
+    if (!current || profile.version > current.version) latest.set(profile.id, profile);
+  }
+  return [...latest.values()];
+}
+
+// Every version of one profile, newest first
+export const profileHistory = (profiles: CapitalMarketProfile[], id: string) =>
+  profiles.filter(profile => profile.id === id).sort((a, b) => b.version - a.version);
+
+// Adds the edited profile as the next version of its id
+export function addProfileVersion(
+  profiles: CapitalMarketProfile[],
+  edited: CapitalMarketProfile,
+  effectiveDate: string
+): CapitalMarketProfile[] {
+  const version = Math.max(0, ...profileHistory(profiles, edited.id).map(profile => profile.version)) + 1;
+  return [...profiles, { ...edited, version, effectiveDate }];
+}
+
+const sameVersion = (a: CapitalMarketProfile, b: CapitalMarketProfile) => a.id === b.id && a.version === b.version;
+
+const sameAssumptions = (a: CapitalMarketProfile, b: CapitalMarketProfile) =>
+  a.name === b.name &&
+  ASSET_CLASSES.every(x =>
+    a.assets[x].expectedReturn === b.assets[x].expectedReturn &&
+    a.assets[x].volatility === b.assets[x].volatility &&
+    ASSET_CLASSES.every(y => a.correlations[x][y] === b.correlations[x][y])
+  );
+
+// Adds imported profiles to the list. A version already present with the same
+// assumptions is skipped; one that differs is added as the next version of
+// its id rather than replacing history.
+export function importProfiles(
+  profiles: CapitalMarketProfile[],
+  imported: CapitalMarketProfile[],
+  effectiveDate: string
+): CapitalMarketProfile[] {
+  return imported.reduce((all, profile) => {
+    const existing = all.find(p => sameVersion(p, profile));
+    if (!existing) return [...all, profile];
+    return sameAssumptions(existing, profile) ? all : addProfileVersion(all, profile, effectiveDate);
+  }, profiles);
+}
+
+// Stored profiles plus any built-in versions they do not have yet, so
+// profiles shipped after the list was first saved still reach the user
+export const withBuiltInProfiles = (stored: CapitalMarketProfile[]) => [
+  ...stored,
+  ...BUILT_IN_PROFILES.filter(builtIn => !stored.some(p => sameVersion(p, builtIn)))
+];
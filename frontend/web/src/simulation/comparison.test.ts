@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { applyWhatIf } from "./comparison";
+import { DEFAULT_GLIDE_PATHS } from "./glidePath";
+import { ProjectionInputs } from "./projection";
+import { baseInputs } from "./testFixtures";
+
+const inputs: ProjectionInputs = { ...baseInputs, startAge: 65 };
+
+describe("applyWhatIf", () => {
+  it("keeps the plan when nothing is edited", () => {
+    expect(applyWhatIf(inputs, {})).toEqual(inputs);
+  });
+
+  it("replaces spending and the return rate", () => {
+    const variant = applyWhatIf(inputs, { annualSpending: 50000, returnRate: 0.06 });
+    expect(variant.annualSpending).toBe(50000);
+    expect(variant.returnRate).toBe(0.06);
+    expect(applyWhatIf(inputs, { annualSpending: -1 }).annualSpending).toBe(45000);
+  });
+
+  it("grows the assets and shortens the horizon when retiring later", () => {
+    const later = applyWhatIf(inputs, { retirementAge: 67 });
+    expect(later.startAge).toBe(67);
+    expect(later.horizonYears).toBe(28);
+    expect(later.startingAssets).toBeCloseTo(1000000 * 1.05 * 1.05);
+  });
+
+  it("shrinks the assets when retiring earlier", () => {
+    const earlier = applyWhatIf(inputs, { retirementAge: 64 });
+    expect(earlier.horizonYears).toBe(31);
+    expect(earlier.startingAssets).toBeCloseTo(1000000 / 1.05);
+  });
+
+  it("ignores the return rate for a plan on a glide path", () => {
+    const glide = { ...inputs, glidePath: DEFAULT_GLIDE_PATHS.static };
+    expect(applyWhatIf(glide, { returnRate: 0.09 }).returnRate).toBe(0.05);
+  });
+});
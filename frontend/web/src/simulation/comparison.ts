@@ -0,0 +1,27 @@
+// comparison.ts
+// What-if variants of a plan for side-by-side comparison. Retiring at a
+// different age moves the start of the plan as the goal seek does, growing or
+// shrinking the assets; the other edits replace the plan's value.
+
+import { retireAt } from "./goalSeek";
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs } from "./projection";
+
+export interface WhatIfEdits {
+  annualSpending?: number;
+  returnRate?: number; // ignored when the plan follows a glide path
+  retirementAge?: number;
+}
+
+export function applyWhatIf(inputs: ProjectionInputs, edits: WhatIfEdits): ProjectionInputs {
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const moved = edits.retirementAge !== undefined && edits.retirementAge !== startAge
+    ? retireAt(inputs, edits.retirementAge)
+    : inputs;
+  return {
+    ...moved,
+    annualSpending: edits.annualSpending !== undefined && edits.annualSpending >= 0
+      ? edits.annualSpending
+      : moved.annualSpending,
+    returnRate: edits.returnRate !== undefined && !moved.glidePath ? edits.returnRate : moved.returnRate
+  };
+}
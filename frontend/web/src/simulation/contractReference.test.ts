@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createUint32Ops, runContractReference, toUint32, verifySimResults } from "./contractReference";
+
+const inputs = { assets: 1000000, annualIncome: 20000, retirementAge: 65, lifeExpectancy: 95, targetIncome: 60000 };
+
+describe("createUint32Ops", () => {
+  it("wraps subtraction below zero and multiplication past 2^32", () => {
+    const ops = createUint32Ops();
+    expect(ops.sub(3, 5)).toBe(4294967294);
+    expect(ops.mul(70000, 70000)).toBe((70000 * 70000) % 2 ** 32);
+    expect(ops.wrapped()).toBe(true);
+  });
+
+  it("truncates division and does not flag it as wrapping", () => {
+    const ops = createUint32Ops();
+    expect(ops.div(7, 2)).toBe(3);
+    expect(ops.div(33333, 100)).toBe(333);
+    expect(ops.wrapped()).toBe(false);
+  });
+
+  it("rejects division by zero", () => {
+    expect(() => createUint32Ops().div(1, 0)).toThrow(RangeError);
+  });
+});
+
+describe("toUint32", () => {
+  it("truncates fractions and wraps negatives", () => {
+    expect(toUint32(2.9)).toBe(2);
+    expect(toUint32(-1)).toBe(4294967295);
+  });
+});
+
+describe("runContractReference", () => {
+  it("computes fixed results for a plan that stays in range", () => {
+    const result = runContractReference(inputs);
+    expect(result.years).toBe(30);
+    expect(result.wrapped).toBe(false);
+    expect(result.simResults).toEqual([2, 40000, 100]);
+    expect(result.outcomes[1].successRate).toBe(3);
+    expect(result.outcomes[3].firstWithdrawal).toBe(33333);
+    expect(result.outcomes[3].successRate).toBe(73);
+  });
+
+  it("wraps the fixed-percentage withdrawal for balances near the uint32 limit", () => {
+    const result = runContractReference({ ...inputs, assets: 3000000000, annualIncome: 0 });
+    expect(result.wrapped).toBe(true);
+    // 3e9 * 4 wraps to 3410065408 before the division by 100
+    expect(result.outcomes[1].firstWithdrawal).toBe(34100654);
+  });
+
+  it("counts the success rate over the years to life expectancy only", () => {
+    const result = runContractReference({ ...inputs, assets: 400000, lifeExpectancy: 80 });
+    expect(result.years).toBe(15);
+    expect(result.outcomes[2].years).toHaveLength(15);
+    expect(result.outcomes[2].years.filter(year => !year.funded)).toHaveLength(4);
+    // 11 of 15 funded years, truncated
+    expect(result.outcomes[2].successRate).toBe(73);
+  });
+
+  it("caps the simulated years at SIMULATION_YEARS", () => {
+    expect(runContractReference({ ...inputs, lifeExpectancy: 110 }).years).toBe(30);
+  });
+
+  it("rejects a life expectancy not above the retirement age", () => {
+    expect(() => runContractReference({ ...inputs, retirementAge: 70, lifeExpectancy: 60 })).toThrow(RangeError);
+    expect(() => runContractReference({ ...inputs, lifeExpectancy: 65 })).toThrow(RangeError);
+  });
+});
+
+describe("verifySimResults", () => {
+  it("reports the fields that differ from the reference", () => {
+    expect(verifySimResults(inputs, [2, 40000, 100]).matches).toBe(true);
+    expect(verifySimResults(inputs, [2, 40001, 100]).mismatches).toEqual(["withdrawal"]);
+  });
+});
@@ -0,0 +1,217 @@
+// contractReference.ts
+// Plaintext model of the off-chain computation PrivateRetirementPlanner.sol
+// requests. The contract only forwards its encrypted inputs to
+// FHE.requestComputation and stores the three results; it does not define the
+// simulation, so the strategy rules and the withdrawal and inflation rates
+// below are this module's model of that computation, not values read from the
+// contract. Only SIMULATION_YEARS, DEFAULT_RETURN_RATE and the strategy IDs
+// come from the contract.
+// The inputs and results are euint32, so the model is integer-only:
+// additions and multiplications wrap modulo 2^32, subtractions below zero wrap
+// around, and division truncates. Money is in whole currency units and rates
+// in whole percent, as in the contract.
+
+import { incomeAtAge } from "./income";
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs, planIncomeStreams } from "./projection";
+
+export const UINT32_MAX = 0xffffffff;
+
+// Mirror SIMULATION_YEARS and DEFAULT_RETURN_RATE in PrivateRetirementPlanner.sol
+export const CONTRACT_SIMULATION_YEARS = 30;
+export const CONTRACT_RETURN_RATE = 5; // percent per year
+
+// Modelled rates of the off-chain computation; the contract has no such constants
+export const FIXED_WITHDRAWAL_RATE = 4; // percent of the balance
+export const INFLATION_RATE_PER_MILLE = 25; // 2.5% a year
+
+export const CONTRACT_STRATEGIES = {
+  FIXED_PERCENTAGE: 1,
+  INFLATION_ADJUSTED: 2,
+  DYNAMIC_SPENDING: 3
+} as const;
+
+export type ContractStrategyId = typeof CONTRACT_STRATEGIES[keyof typeof CONTRACT_STRATEGIES];
+
+export const CONTRACT_STRATEGY_IDS: ContractStrategyId[] = [
+  CONTRACT_STRATEGIES.FIXED_PERCENTAGE,
+  CONTRACT_STRATEGIES.INFLATION_ADJUSTED,
+  CONTRACT_STRATEGIES.DYNAMIC_SPENDING
+];
+
+export const CONTRACT_STRATEGY_LABELS: Record<ContractStrategyId, string> = {
+  1: "Fixed percentage",
+  2: "Inflation-adjusted",
+  3: "Dynamic spending"
+};
+
+// Plaintext values of the contract's EncryptedFinancialData fields
+export interface ContractInputs {
+  assets: number;
+  annualIncome: number; // retirement income from outside the portfolio
+  retirementAge: number;
+  lifeExpectancy: number;
+  targetIncome: number; // desired total retirement income
+}
+
+export interface ContractYear {
+  year: number;
+  startBalance: number;
+  need: number; // target income less outside income, grown with inflation
+  withdrawal: number;
+  funded: boolean; // the withdrawal covered the need
+  endBalance: number;
+}
+
+export interface ContractStrategyOutcome {
+  strategy: ContractStrategyId;
+  years: ContractYear[]; // the simulated years only
+  firstWithdrawal: number;
+  successRate: number; // percent of SIMULATION_YEARS not left unfunded, 0–100
+}
+
+// simResults as decoded in runSimulation: [strategy, withdrawal, successRate]
+export type SimResults = [ContractStrategyId, number, number];
+
+export interface ContractReferenceResult {
+  years: number;
+  outcomes: Record<ContractStrategyId, ContractStrategyOutcome>;
+  simResults: SimResults;
+  wrapped: boolean; // some step overflowed or underflowed and wrapped around
+}
+
+export interface Uint32Ops {
+  add(a: number, b: number): number;
+  sub(a: number, b: number): number;
+  mul(a: number, b: number): number;
+  div(a: number, b: number): number; // b is a plaintext constant, as FHE division requires
+  min(a: number, b: number): number;
+  wrapped(): boolean;
+}
+
+export const toUint32 = (value: number) => Math.trunc(value) >>> 0;
+
+// The contract's inputs for a plan, in whole units. Outside income is what
+// the plan receives in its first year; the target is the planned spending.
+export function contractInputsFor(inputs: ProjectionInputs): ContractInputs {
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  return {
+    assets: toUint32(inputs.startingAssets),
+    annualIncome: toUint32(incomeAtAge(planIncomeStreams(inputs), startAge, 1)),
+    retirementAge: startAge,
+    lifeExpectancy: startAge + inputs.horizonYears,
+    targetIncome: toUint32(inputs.annualSpending)
+  };
+}
+
+// euint32 arithmetic that records whether any result wrapped
+export function createUint32Ops(): Uint32Ops {
+  let wrapped = false;
+  const track = (exact: number) => {
+    const result = exact >>> 0;
+    if (result !== exact) wrapped = true;
+    return result;
+  };
+
+  return {
+    add: (a, b) => track(a + b),
+    sub: (a, b) => track(a - b),
+    // Math.imul keeps the low 32 bits exactly; the float product only detects the wrap
+    mul: (a, b) => {
+      if (a * b > UINT32_MAX) wrapped = true;
+      return Math.imul(a, b) >>> 0;
+    },
+    div: (a, b) => {
+      if (b === 0) throw new RangeError("Division by zero reverts in the contract");
+      return Math.floor(a / b) >>> 0;
+    },
+    min: (a, b) => Math.min(a, b) >>> 0,
+    wrapped: () => wrapped
+  };
+}
+
+// Only the years to life expectancy are simulated and counted in the success
+// rate. Dynamic spending amortizes the balance over the years left.
+function simulateStrategy(
+  strategy: ContractStrategyId,
+  inputs: ContractInputs,
+  years: number,
+  ops: Uint32Ops
+): ContractStrategyOutcome {
+  const { add, sub, mul, div, min } = ops;
+  const outsideIncome = min(toUint32(inputs.annualIncome), toUint32(inputs.targetIncome));
+  let need = sub(toUint32(inputs.targetIncome), outsideIncome);
+  let balance = toUint32(inputs.assets);
+  let unfundedYears = 0;
+  const rows: ContractYear[] = [];
+
+  for (let t = 0; t < years; t++) {
+    let wanted: number;
+    switch (strategy) {
+      case CONTRACT_STRATEGIES.FIXED_PERCENTAGE:
+        wanted = div(mul(balance, FIXED_WITHDRAWAL_RATE), 100);
+        break;
+      case CONTRACT_STRATEGIES.DYNAMIC_SPENDING:
+        wanted = div(balance, years - t);
+        break;
+      case CONTRACT_STRATEGIES.INFLATION_ADJUSTED:
+      default:
+        wanted = need;
+    }
+
+    const withdrawal = min(wanted, balance);
+    const funded = withdrawal >= need;
+    const invested = sub(balance, withdrawal);
+    const endBalance = add(invested, div(mul(invested, CONTRACT_RETURN_RATE), 100));
+    rows.push({ year: t + 1, startBalance: balance, need, withdrawal, funded, endBalance });
+
+    if (!funded) unfundedYears = add(unfundedYears, 1);
+    balance = endBalance;
+    need = add(need, div(mul(need, INFLATION_RATE_PER_MILLE), 1000));
+  }
+
+  return {
+    strategy,
+    years: rows,
+    firstWithdrawal: rows[0]?.withdrawal ?? 0,
+    successRate: div(mul(sub(years, unfundedYears), 100), years)
+  };
+}
+
+// Runs every strategy over the years to life expectancy, capped at
+// SIMULATION_YEARS. The recommended strategy is the one with the highest
+// success rate, the lowest ID winning ties.
+export function runContractReference(inputs: ContractInputs): ContractReferenceResult {
+  const retirementAge = toUint32(inputs.retirementAge);
+  const lifeExpectancy = toUint32(inputs.lifeExpectancy);
+  if (lifeExpectancy <= retirementAge) {
+    throw new RangeError("Life expectancy must be above the retirement age");
+  }
+  const ops = createUint32Ops();
+  const years = ops.min(ops.sub(lifeExpectancy, retirementAge), CONTRACT_SIMULATION_YEARS);
+
+  const outcomes = {} as Record<ContractStrategyId, ContractStrategyOutcome>;
+  let best: ContractStrategyOutcome | null = null;
+  for (const strategy of CONTRACT_STRATEGY_IDS) {
+    const outcome = simulateStrategy(strategy, inputs, years, ops);
+    outcomes[strategy] = outcome;
+    if (!best || outcome.successRate > best.successRate) best = outcome;
+  }
+
+  return {
+    years,
+    outcomes,
+    simResults: [best!.strategy, best!.firstWithdrawal, best!.successRate],
+    wrapped: ops.wrapped()
+  };
+}
+
+export type SimResultField = "strategy" | "withdrawal" | "successRate";
+
+export const SIM_RESULT_FIELDS: SimResultField[] = ["strategy", "withdrawal", "successRate"];
+
+// Compares decrypted contract results with the reference, field by field
+export function verifySimResults(inputs: ContractInputs, decrypted: readonly number[]) {
+  const expected = runContractReference(inputs).simResults;
+  const mismatches = SIM_RESULT_FIELDS.filter((_, i) => toUint32(decrypted[i] ?? 0) !== expected[i]);
+  return { matches: mismatches.length === 0, expected, mismatches };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GLIDE_PATHS, allocationForYear, glidePathReturns } from "./glidePath";
+import { expectedReturns } from "./projection";
+import { baseInputs } from "./testFixtures";
+
+describe("allocationForYear", () => {
+  it("holds a static mix every year", () => {
+    const mix = { stocks: 0.6, bonds: 0.35, cash: 0.05 };
+    expect(allocationForYear(DEFAULT_GLIDE_PATHS.static, 0, 30)).toEqual(mix);
+    expect(allocationForYear(DEFAULT_GLIDE_PATHS.static, 29, 30)).toEqual(mix);
+  });
+
+  it("declines equity steadily to the last year of the horizon", () => {
+    const path = DEFAULT_GLIDE_PATHS.declining;
+    expect(allocationForYear(path, 0, 31).stocks).toBeCloseTo(0.7);
+    expect(allocationForYear(path, 15, 31).stocks).toBeCloseTo(0.55);
+    expect(allocationForYear(path, 30, 31).stocks).toBeCloseTo(0.4);
+    expect(allocationForYear(path, 40, 31).stocks).toBeCloseTo(0.4);
+  });
+
+  it("rises into equities over the transition years of a bond tent", () => {
+    const path = DEFAULT_GLIDE_PATHS.risingEquity;
+    expect(allocationForYear(path, 0, 30).stocks).toBeCloseTo(0.3);
+    expect(allocationForYear(path, 5, 30).stocks).toBeCloseTo(0.45);
+    expect(allocationForYear(path, 10, 30).stocks).toBeCloseTo(0.6);
+    expect(allocationForYear(path, 20, 30).stocks).toBeCloseTo(0.6);
+  });
+
+  it("always sums to one with the cash share held fixed", () => {
+    const mix = allocationForYear({ ...DEFAULT_GLIDE_PATHS.static, startEquity: 1.2, cashShare: 0.1 }, 0, 30);
+    expect(mix).toEqual({ stocks: 0.9, bonds: 0, cash: 0.1 });
+  });
+});
+
+describe("glidePathReturns", () => {
+  it("weights each year's asset returns by that year's mix", () => {
+    const returns = { stocks: 0.1, bonds: 0.04, cash: 0.02 };
+    const [first, last] = glidePathReturns(DEFAULT_GLIDE_PATHS.declining, [returns, returns], 2);
+    expect(first).toBeCloseTo(0.7 * 0.1 + 0.25 * 0.04 + 0.05 * 0.02);
+    expect(last).toBeCloseTo(0.4 * 0.1 + 0.55 * 0.04 + 0.05 * 0.02);
+  });
+
+  it("gives a declining path falling expected returns in a projection", () => {
+    const returns = expectedReturns({ ...baseInputs, glidePath: DEFAULT_GLIDE_PATHS.declining });
+    expect(returns).toHaveLength(30);
+    expect(returns[29]).toBeLessThan(returns[0]);
+  });
+});
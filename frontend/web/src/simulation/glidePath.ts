@@ -0,0 +1,49 @@
+// glidePath.ts
+// Glide paths set the stock/bond/cash mix for every year of the horizon:
+// a static mix, equities declining steadily to the end, or a "bond tent" that
+// starts bond-heavy and rises back into equities over the first years.
+
+import { Allocation, AssetReturns, portfolioReturn } from "./assetClasses";
+
+export type GlidePathKind = "static" | "declining" | "risingEquity";
+
+export const GLIDE_PATH_LABELS: Record<GlidePathKind, string> = {
+  static: "Static",
+  declining: "Declining equity",
+  risingEquity: "Rising equity (bond tent)"
+};
+
+export interface GlidePath {
+  kind: GlidePathKind;
+  startEquity: number; // stock share in the first year
+  endEquity: number; // stock share at the end of the glide; unused by static paths
+  cashShare: number; // held in cash every year; the rest of the non-stock share is bonds
+  transitionYears: number; // years a rising-equity path takes to reach endEquity
+}
+
+export const DEFAULT_GLIDE_PATHS: Record<GlidePathKind, GlidePath> = {
+  static: { kind: "static", startEquity: 0.6, endEquity: 0.6, cashShare: 0.05, transitionYears: 0 },
+  declining: { kind: "declining", startEquity: 0.7, endEquity: 0.4, cashShare: 0.05, transitionYears: 0 },
+  risingEquity: { kind: "risingEquity", startEquity: 0.3, endEquity: 0.6, cashShare: 0.05, transitionYears: 10 }
+};
+
+// Allocation in the given 0-based year of a horizonYears-long plan; years
+// past the horizon keep the final mix
+export function allocationForYear(path: GlidePath, year: number, horizonYears: number): Allocation {
+  let progress = 0;
+  if (path.kind === "declining") {
+    progress = horizonYears > 1 ? Math.min(1, year / (horizonYears - 1)) : 1;
+  } else if (path.kind === "risingEquity") {
+    progress = path.transitionYears > 0 ? Math.min(1, year / path.transitionYears) : 1;
+  }
+
+  const cash = Math.min(1, Math.max(0, path.cashShare));
+  const equity = path.startEquity + (path.endEquity - path.startEquity) * progress;
+  const stocks = Math.min(1 - cash, Math.max(0, equity));
+  return { stocks, bonds: 1 - cash - stocks, cash };
+}
+
+// Portfolio return in each year, weighting asset returns by that year's mix
+export function glidePathReturns(path: GlidePath, assetReturns: AssetReturns[], horizonYears: number): number[] {
+  return assetReturns.map((returns, year) => portfolioReturn(allocationForYear(path, year, horizonYears), returns));
+}
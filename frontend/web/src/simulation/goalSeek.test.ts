@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { EARLIEST_RETIREMENT_AGE, GoalSeekOptions, earliestRetirementAge, extraSavingsNeeded } from "./goalSeek";
+import { ProjectionInputs } from "./projection";
+import { baseInputs, monteCarloOptions } from "./testFixtures";
+
+const inputs: ProjectionInputs = { ...baseInputs, annualSpending: 40000, startAge: 65 };
+
+const options: GoalSeekOptions = {
+  targetConfidence: 0.8,
+  monteCarlo: { ...monteCarloOptions, trials: 200 }
+};
+
+describe("earliestRetirementAge", () => {
+  it("searches ages before the plan's start age when it already meets the target", () => {
+    const age = earliestRetirementAge({ ...inputs, annualSpending: 20000 }, options);
+    expect(age).not.toBeNull();
+    expect(age!).toBeLessThan(65);
+    expect(age!).toBeGreaterThanOrEqual(EARLIEST_RETIREMENT_AGE);
+  });
+});
+
+describe("extraSavingsNeeded", () => {
+  it("is zero when the plan already meets the target", () => {
+    expect(extraSavingsNeeded({ ...inputs, annualSpending: 20000 }, options)).toBe(0);
+  });
+
+  it("is null when no amount tried reaches the target", () => {
+    expect(extraSavingsNeeded(inputs, { ...options, targetConfidence: 1.01 })).toBeNull();
+  });
+});
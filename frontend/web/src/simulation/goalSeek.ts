@@ -0,0 +1,137 @@
+// goalSeek.ts
+// Solves for the plan input that just reaches a target Monte Carlo success
+// rate: the largest initial spending, the earliest retirement age, or the
+// extra savings needed. Every evaluation reruns the simulation on the same
+// seed, so success moves smoothly as the input changes.
+
+import { MonteCarloOptions, runMonteCarlo } from "./monteCarlo";
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs, expectedReturns } from "./projection";
+
+export const DEFAULT_TARGET_CONFIDENCE = 0.9;
+export const EARLIEST_RETIREMENT_AGE = 50;
+export const LATEST_RETIREMENT_AGE = 75;
+
+// Fewer trials than a full simulation keep repeated solves responsive
+export const DEFAULT_SOLVER_TRIALS = 400;
+
+const SOLVER_ITERATIONS = 20;
+
+export interface GoalSeekOptions {
+  targetConfidence: number;
+  monteCarlo: MonteCarloOptions;
+}
+
+export interface GoalSeekResult {
+  maxSpending: number | null; // null when the strategy sizes withdrawals on its own
+  earliestRetirementAge: number | null; // null when no age up to LATEST_RETIREMENT_AGE works
+  extraSavingsNeeded: number | null; // lump sum to add to today's assets; 0 when already on target, null when no sum found does
+}
+
+const meetsTarget = (inputs: ProjectionInputs, options: GoalSeekOptions) =>
+  runMonteCarlo(inputs, options.monteCarlo).successProbability >= options.targetConfidence;
+
+// Largest first-year spending (in today's money) that meets the target
+export function maxSustainableSpending(inputs: ProjectionInputs, options: GoalSeekOptions): number | null {
+  if (inputs.strategy?.kind === "vpw") return null;
+
+  let low = 0;
+  let high = Math.max(inputs.startingAssets, 1);
+  if (!meetsTarget({ ...inputs, annualSpending: low }, options)) return 0;
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (meetsTarget({ ...inputs, annualSpending: mid }, options)) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+// The plan with different starting assets, keeping the account mix
+export function withStartingAssets(inputs: ProjectionInputs, startingAssets: number): ProjectionInputs {
+  const scale = inputs.startingAssets > 0 ? startingAssets / inputs.startingAssets : 1;
+  return {
+    ...inputs,
+    startingAssets,
+    accounts: inputs.accounts && {
+      taxable: inputs.accounts.taxable * scale,
+      taxDeferred: inputs.accounts.taxDeferred * scale,
+      roth: inputs.accounts.roth * scale
+    }
+  };
+}
+
+// The plan as if retirement started at the given age, still ending at the
+// same age. Assets grow untouched at the expected return for each year of
+// delay; retiring earlier gives them that many fewer years of growth.
+export function retireAt(inputs: ProjectionInputs, age: number): ProjectionInputs {
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const delay = Math.min(age - startAge, inputs.horizonYears - 1);
+  const growth = expectedReturns({ ...inputs, horizonYears: Math.max(Math.abs(delay), 1) });
+  let assets = inputs.startingAssets;
+  for (let year = 0; year < Math.abs(delay); year++) {
+    assets = delay > 0 ? assets * (1 + growth[year]) : assets / (1 + growth[year]);
+  }
+
+  return {
+    ...withStartingAssets(inputs, assets),
+    startAge: startAge + delay,
+    horizonYears: inputs.horizonYears - delay
+  };
+}
+
+// First age from EARLIEST_RETIREMENT_AGE (or the plan's start age, if earlier)
+// that meets the target; success rises with every year of delay, so the ages
+// are bisected on whichever side of the start age the answer lies
+export function earliestRetirementAge(inputs: ProjectionInputs, options: GoalSeekOptions): number | null {
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const firstAge = Math.min(EARLIEST_RETIREMENT_AGE, startAge);
+  const lastAge = Math.min(LATEST_RETIREMENT_AGE, startAge + inputs.horizonYears - 1);
+  const works = (age: number) => meetsTarget(retireAt(inputs, age), options);
+
+  let low: number;
+  let high: number;
+  if (works(startAge)) {
+    if (firstAge === startAge || works(firstAge)) return firstAge;
+    low = firstAge;
+    high = startAge;
+  } else {
+    if (lastAge <= startAge || !works(lastAge)) return null;
+    low = startAge;
+    high = lastAge;
+  }
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (works(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+// Smallest addition to today's assets that meets the target, or null when
+// even the largest sum tried falls short
+export function extraSavingsNeeded(inputs: ProjectionInputs, options: GoalSeekOptions): number | null {
+  const withExtra = (extra: number) => withStartingAssets(inputs, inputs.startingAssets + extra);
+  if (meetsTarget(withExtra(0), options)) return 0;
+
+  let high = Math.max(inputs.startingAssets, inputs.annualSpending * 10, 1);
+  let reached = meetsTarget(withExtra(high), options);
+  for (let i = 0; i < SOLVER_ITERATIONS && !reached; i++) {
+    high *= 2;
+    reached = meetsTarget(withExtra(high), options);
+  }
+  if (!reached) return null;
+  let low = 0;
+  for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (meetsTarget(withExtra(mid), options)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+export function goalSeek(inputs: ProjectionInputs, options: GoalSeekOptions): GoalSeekResult {
+  return {
+    maxSpending: maxSustainableSpending(inputs, options),
+    earliestRetirementAge: earliestRetirementAge(inputs, options),
+    extraSavingsNeeded: extraSavingsNeeded(inputs, options)
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GUARDRAILS, createGuardrailsPolicy } from "./guardrails";
+import { WithdrawalContext } from "./withdrawal";
+
+const year = (overrides: Partial<WithdrawalContext>): WithdrawalContext => ({
+  year: 1,
+  balance: 1000000,
+  priceLevel: 1,
+  otherIncome: 0,
+  spendingScale: 1,
+  previousReturn: 0.05,
+  previousInflation: 0.02,
+  yearsRemaining: 30,
+  ...overrides
+});
+
+describe("createGuardrailsPolicy", () => {
+  it("nets other income off the spending level", () => {
+    const policy = createGuardrailsPolicy(DEFAULT_GUARDRAILS, 45000);
+    expect(policy.nextWithdrawal(year({ otherIncome: 27000 }))).toBeCloseTo(18000);
+  });
+
+  it("raises the spending level with inflation and still nets other income", () => {
+    const policy = createGuardrailsPolicy(DEFAULT_GUARDRAILS, 45000);
+    policy.nextWithdrawal(year({ otherIncome: 10000 }));
+    const second = policy.nextWithdrawal(year({ year: 2, otherIncome: 10200, yearsRemaining: 29 }));
+    expect(second).toBeCloseTo(45000 * 1.02 - 10200);
+  });
+
+  it("scales spending by the plan's spending profile without tripping a guardrail", () => {
+    const policy = createGuardrailsPolicy(DEFAULT_GUARDRAILS, 45000);
+    policy.nextWithdrawal(year({}));
+    const reduced = policy.nextWithdrawal(year({ year: 2, spendingScale: 0.6, yearsRemaining: 29 }));
+    expect(reduced).toBeCloseTo(45000 * 1.02 * 0.6);
+  });
+
+  it("keeps asking for the inflation-adjusted spending once the portfolio is empty", () => {
+    const policy = createGuardrailsPolicy(DEFAULT_GUARDRAILS, 45000);
+    policy.nextWithdrawal(year({}));
+    const empty = policy.nextWithdrawal(year({ year: 2, balance: 0, yearsRemaining: 29 }));
+    expect(Number.isFinite(empty)).toBe(true);
+    expect(empty).toBeGreaterThanOrEqual(45000 * 1.02);
+  });
+});
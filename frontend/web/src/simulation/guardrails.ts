@@ -0,0 +1,64 @@
+// guardrails.ts
+// Guyton-Klinger decision rules layered on an inflation-adjusted withdrawal.
+// The rules adjust a spending level; the portfolio pays what other income
+// does not cover, and the withdrawal rates the rules test are of that draw.
+// The plan's spending profile and survivor reduction scale what is paid but
+// not the rates tested, so a planned change in spending never trips a rule.
+
+import { WithdrawalContext, WithdrawalPolicy } from "./withdrawal";
+
+export interface GuardrailsConfig {
+  // Cut spending when the current withdrawal rate exceeds the initial rate by this share
+  capitalPreservationThreshold: number;
+  // Raise spending when the current withdrawal rate falls below the initial rate by this share
+  prosperityThreshold: number;
+  // Skip the inflation raise after a portfolio return below this rate
+  inflationSkipThreshold: number;
+  // Size of each guardrail cut or raise
+  adjustment: number;
+  // Capital preservation no longer applies in the final years of the horizon
+  preservationCutoffYears: number;
+}
+
+export const DEFAULT_GUARDRAILS: GuardrailsConfig = {
+  capitalPreservationThreshold: 0.2,
+  prosperityThreshold: 0.2,
+  inflationSkipThreshold: 0,
+  adjustment: 0.1,
+  preservationCutoffYears: 15
+};
+
+export function createGuardrailsPolicy(config: GuardrailsConfig, initialSpending: number): WithdrawalPolicy {
+  let spending = initialSpending;
+  let initialRate = 0;
+
+  const portfolioDraw = (ctx: WithdrawalContext, scale = 1) => Math.max(0, spending * scale - ctx.otherIncome);
+
+  return {
+    nextWithdrawal(ctx: WithdrawalContext) {
+      if (ctx.year === 1) {
+        initialRate = ctx.balance > 0 ? portfolioDraw(ctx) / ctx.balance : 0;
+        return portfolioDraw(ctx, ctx.spendingScale);
+      }
+
+      // Inflation rule: no raise after a weak year while spending is above its initial rate
+      const rateBeforeRaise = ctx.balance > 0 ? portfolioDraw(ctx) / ctx.balance : 0;
+      const skipInflation = ctx.previousReturn < config.inflationSkipThreshold && rateBeforeRaise > initialRate;
+      if (!skipInflation) {
+        spending *= 1 + ctx.previousInflation;
+      }
+
+      const currentRate = ctx.balance > 0 ? portfolioDraw(ctx) / ctx.balance : 0;
+      if (
+        currentRate > initialRate * (1 + config.capitalPreservationThreshold) &&
+        ctx.yearsRemaining > config.preservationCutoffYears
+      ) {
+        spending *= 1 - config.adjustment;
+      } else if (currentRate < initialRate * (1 - config.prosperityThreshold)) {
+        spending *= 1 + config.adjustment;
+      }
+
+      return portfolioDraw(ctx, ctx.spendingScale);
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LTC_RISK, HealthcareConfig, healthcareCost, sampleLtcEvent } from "./health";
+import { runMonteCarlo } from "./monteCarlo";
+import { projectCashflows } from "./projection";
+import { createRng } from "./random";
+import { baseInputs, monteCarloOptions } from "./testFixtures";
+
+const healthcare: HealthcareConfig = {
+  annualPremium: 6000,
+  premiumAgeGrowth: 0.03,
+  healthcareInflation: 0.05,
+  ltc: DEFAULT_LTC_RISK
+};
+
+describe("healthcareCost", () => {
+  it("grows premiums with age and with healthcare inflation", () => {
+    expect(healthcareCost(healthcare, 65, 65, null)).toBe(6000);
+    expect(healthcareCost(healthcare, 65, 75, null)).toBeCloseTo(6000 * Math.pow(1.03 * 1.05, 10));
+  });
+
+  it("adds care costs only during the care event", () => {
+    const event = { onsetAge: 80, durationYears: 2 };
+    const premium = (age: number) => healthcareCost(healthcare, 65, age, null);
+    expect(healthcareCost(healthcare, 65, 79, event)).toBeCloseTo(premium(79));
+    expect(healthcareCost(healthcare, 65, 81, event) - premium(81)).toBeCloseTo(100000 * Math.pow(1.05, 16));
+    expect(healthcareCost(healthcare, 65, 82, event)).toBeCloseTo(premium(82));
+  });
+});
+
+describe("sampleLtcEvent", () => {
+  it("needs care at the risk's probability, within its ages and average duration", () => {
+    const rng = createRng(9);
+    const events = Array.from({ length: 20000 }, () => sampleLtcEvent(DEFAULT_LTC_RISK, 65, rng));
+    const inCare = events.filter(event => event !== null);
+    expect(inCare.length / events.length).toBeCloseTo(0.5, 1);
+    for (const event of inCare) {
+      expect(event!.onsetAge).toBeGreaterThanOrEqual(75);
+      expect(event!.onsetAge).toBeLessThanOrEqual(90);
+    }
+    const duration = inCare.reduce((total, event) => total + event!.durationYears, 0) / inCare.length;
+    expect(duration).toBeCloseTo(3, 1);
+  });
+
+  it("never starts care before the plan does", () => {
+    const event = sampleLtcEvent({ ...DEFAULT_LTC_RISK, probability: 1 }, 80, () => 0);
+    expect(event!.onsetAge).toBe(80);
+  });
+});
+
+describe("healthcare in a plan", () => {
+  it("is withdrawn on top of regular spending", () => {
+    const [first] = projectCashflows({ ...baseInputs, healthcare }).years;
+    expect(first.healthcareCost).toBe(6000);
+    expect(first.withdrawal).toBeCloseTo(45000 + 6000);
+  });
+
+  it("lowers the success rate once care risk is added", () => {
+    const premiums = runMonteCarlo({ ...baseInputs, healthcare: { ...healthcare, ltc: undefined } }, monteCarloOptions);
+    const withCare = runMonteCarlo({ ...baseInputs, healthcare }, monteCarloOptions);
+    expect(withCare.successProbability).toBeLessThan(premiums.successProbability);
+  });
+});
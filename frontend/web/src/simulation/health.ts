@@ -0,0 +1,59 @@
+// health.ts
+// Healthcare spending on top of the plan's regular spending: insurance
+// premiums that rise with age and with their own inflation rate, plus the risk
+// of a long-term-care event that Monte Carlo samples in every trial.
+
+import { Rng } from "./random";
+
+export interface LtcRisk {
+  probability: number; // chance of needing paid long-term care at some point
+  earliestOnsetAge: number;
+  latestOnsetAge: number;
+  averageDurationYears: number;
+  annualCost: number; // in today's money
+}
+
+export interface HealthcareConfig {
+  annualPremium: number; // premiums and out-of-pocket costs at the plan start age, in today's money
+  premiumAgeGrowth: number; // real increase per year of age
+  healthcareInflation: number; // replaces general inflation for health costs
+  ltc?: LtcRisk;
+}
+
+export interface LtcEvent {
+  onsetAge: number;
+  durationYears: number;
+}
+
+export const DEFAULT_PREMIUM_AGE_GROWTH = 0.03;
+export const DEFAULT_HEALTHCARE_INFLATION = 0.05;
+
+export const DEFAULT_LTC_RISK: LtcRisk = {
+  probability: 0.5,
+  earliestOnsetAge: 75,
+  latestOnsetAge: 90,
+  averageDurationYears: 3,
+  annualCost: 100000
+};
+
+// Nominal health spending in the year the plan owner turns `age`
+export function healthcareCost(config: HealthcareConfig, startAge: number, age: number, ltcEvent: LtcEvent | null): number {
+  const years = age - startAge;
+  const inflation = Math.pow(1 + config.healthcareInflation, years);
+  const premium = config.annualPremium * Math.pow(1 + config.premiumAgeGrowth, years) * inflation;
+  const inCare = ltcEvent !== null && age >= ltcEvent.onsetAge && age < ltcEvent.onsetAge + ltcEvent.durationYears;
+  return premium + (inCare && config.ltc ? config.ltc.annualCost * inflation : 0);
+}
+
+// Draws whether and when care is needed. Onset is uniform over the risk's age
+// range, never before the plan starts; the duration is uniform between one
+// year and 2 × average − 1 years, so it averages the given duration.
+export function sampleLtcEvent(risk: LtcRisk, startAge: number, rng: Rng): LtcEvent | null {
+  if (rng() >= risk.probability) return null;
+  const earliest = Math.max(startAge, risk.earliestOnsetAge);
+  const latest = Math.max(earliest, risk.latestOnsetAge);
+  const onsetAge = earliest + Math.floor(rng() * (latest - earliest + 1));
+  const longest = Math.max(1, Math.round(2 * risk.averageDurationYears - 1));
+  const durationYears = 1 + Math.floor(rng() * longest);
+  return { onsetAge, durationYears };
+}
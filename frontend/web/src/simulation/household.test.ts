@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Household, firstDeath, householdSpendingScale, toPrimaryAge } from "./household";
+import { incomeAtAge } from "./income";
+import { lastDeathAge, sampleHouseholdDeathAges } from "./longevity";
+import { projectCashflows } from "./projection";
+import { createRng } from "./random";
+import { SocialSecurityConfig, annualRetirementBenefit, survivorBenefitStreams } from "./socialSecurity";
+import { baseInputs } from "./testFixtures";
+
+// The spouse is three years younger than the plan owner
+const household: Household = {
+  spouseAgeOffset: -3,
+  lifeExpectancy: { primary: 85, spouse: 90 },
+  survivorSpendingShare: 0.7
+};
+
+describe("firstDeath", () => {
+  it("is null unless the plan follows a survivor path", () => {
+    expect(firstDeath(household)).toBeNull();
+  });
+
+  it("is the other member's death, in the owner's ages", () => {
+    expect(firstDeath({ ...household, survivor: "primary" })).toEqual({ member: "spouse", age: 93 });
+    expect(firstDeath({ ...household, survivor: "spouse" })).toEqual({ member: "primary", age: 85 });
+    expect(toPrimaryAge(household, "spouse", 90)).toBe(93);
+  });
+});
+
+describe("householdSpendingScale", () => {
+  it("drops to the survivor's share from the first death", () => {
+    const widowed = { ...household, survivor: "spouse" as const };
+    expect(householdSpendingScale(widowed, 84)).toBe(1);
+    expect(householdSpendingScale(widowed, 85)).toBe(0.7);
+    expect(householdSpendingScale(household, 100)).toBe(1);
+  });
+});
+
+describe("survivorBenefitStreams", () => {
+  const config: SocialSecurityConfig = {
+    primary: { pia: 2000, fullRetirementAge: 67, claimAge: 67, lifeExpectancy: 85 },
+    spouse: { pia: 800, fullRetirementAge: 67, claimAge: 67, lifeExpectancy: 90, ageOffset: -3 }
+  };
+
+  it("stops the deceased's benefits and raises the survivor's to the larger one", () => {
+    const streams = survivorBenefitStreams(config, { member: "primary", age: 85 });
+    expect(incomeAtAge(streams, 86)).toBeCloseTo(annualRetirementBenefit(config.primary));
+    expect(incomeAtAge(streams, 84)).toBeGreaterThan(incomeAtAge(streams, 86));
+  });
+});
+
+describe("survivor path in a projection", () => {
+  it("withdraws the survivor's share of spending after the first death", () => {
+    const inputs = { ...baseInputs, startAge: 65, inflationRate: 0, household: { ...household, survivor: "spouse" as const } };
+    const { years } = projectCashflows(inputs);
+    expect(years.find(year => year.age === 84)!.withdrawal).toBeCloseTo(45000);
+    expect(years.find(year => year.age === 85)!.withdrawal).toBeCloseTo(45000 * 0.7);
+  });
+});
+
+describe("sampleHouseholdDeathAges", () => {
+  it("draws each member's death at or after their current age and ends at the last one", () => {
+    const rng = createRng(2);
+    for (let i = 0; i < 100; i++) {
+      const deathAges = sampleHouseholdDeathAges({ sex: "male" }, household, 65, rng);
+      expect(deathAges.primary).toBeGreaterThanOrEqual(65);
+      expect(deathAges.spouse).toBeGreaterThanOrEqual(62);
+      expect(lastDeathAge(household, deathAges)).toBe(Math.max(deathAges.primary, deathAges.spouse + 3));
+    }
+  });
+});
@@ -0,0 +1,48 @@
+// household.ts
+// Two-person households. A plan normally assumes both members live through
+// the horizon; a survivor path instead has one member die at their life
+// expectancy, after which their benefits stop, pensions pay the survivor's
+// share and household spending drops to the survivor's share.
+
+export type HouseholdMemberId = "primary" | "spouse";
+
+export const HOUSEHOLD_MEMBERS: HouseholdMemberId[] = ["primary", "spouse"];
+
+export const MEMBER_LABELS: Record<HouseholdMemberId, string> = {
+  primary: "You",
+  spouse: "Spouse"
+};
+
+export const DEFAULT_SURVIVOR_SPENDING_SHARE = 0.7;
+
+export interface Household {
+  spouseAgeOffset: number; // spouse age minus the plan owner's age
+  lifeExpectancy: Record<HouseholdMemberId, number>; // each in the member's own age
+  survivorSpendingShare: number; // share of household spending the survivor still needs
+  survivor?: HouseholdMemberId; // survivor path: the other member dies at their life expectancy
+}
+
+// Death of the first member, in the plan owner's ages
+export interface FirstDeath {
+  member: HouseholdMemberId;
+  age: number;
+}
+
+export const otherMember = (member: HouseholdMemberId): HouseholdMemberId =>
+  member === "primary" ? "spouse" : "primary";
+
+// Converts a member's own age to the plan owner's age
+export const toPrimaryAge = (household: Household, member: HouseholdMemberId, age: number) =>
+  member === "spouse" ? age - household.spouseAgeOffset : age;
+
+export function firstDeath(household: Household): FirstDeath | null {
+  if (!household.survivor) return null;
+  const member = otherMember(household.survivor);
+  return { member, age: toPrimaryAge(household, member, household.lifeExpectancy[member]) };
+}
+
+// Share of planned spending the household needs at the owner's given age
+export function householdSpendingScale(household: Household, age: number): number {
+  const death = firstDeath(household);
+  return death && age >= death.age ? household.survivorSpendingShare : 1;
+}
@@ -0,0 +1,23 @@
+// income.ts
+// Non-portfolio income that offsets what the plan has to draw from savings.
+
+export interface IncomeStream {
+  label: string;
+  startAge: number; // age of the plan owner when payments begin
+  endAge?: number; // first age with no payment; open-ended when omitted
+  annualAmount: number; // in today's money unless the stream has a fixed COLA
+  cola?: number; // fixed annual increase; the amount is then nominal at startAge
+}
+
+// Nominal income received at the given age. Inflation-indexed streams follow
+// the plan's price level; fixed-COLA streams grow from their first payment.
+export function incomeAtAge(streams: IncomeStream[], age: number, priceLevel = 1): number {
+  return streams.reduce((total, stream) => {
+    const active = age >= stream.startAge && (stream.endAge === undefined || age < stream.endAge);
+    if (!active) return total;
+    const amount = stream.cola === undefined
+      ? stream.annualAmount * priceLevel
+      : stream.annualAmount * Math.pow(1 + stream.cola, age - stream.startAge);
+    return total + amount;
+  }, 0);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { HISTORICAL_RETURNS } from "./historicalReturns";
+import {
+  DEFAULT_MEAN_REVERTING,
+  FIXED_INFLATION,
+  HISTORICAL_MEAN_INFLATION,
+  expectedInflationPath,
+  sampleInflationPath
+} from "./inflation";
+import { toDollarBasis } from "./projection";
+import { createRng } from "./random";
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+const meanReverting = { kind: "meanReverting" as const, ...DEFAULT_MEAN_REVERTING };
+
+describe("expectedInflationPath", () => {
+  it("uses the plan's rate, or the historical mean for historical CPI", () => {
+    expect(expectedInflationPath(FIXED_INFLATION, 0.03, 3)).toEqual([0.03, 0.03, 0.03]);
+    expect(expectedInflationPath(meanReverting, 0.03, 2)).toEqual([0.03, 0.03]);
+    expect(expectedInflationPath({ kind: "historical" }, 0.03, 2)).toEqual([HISTORICAL_MEAN_INFLATION, HISTORICAL_MEAN_INFLATION]);
+  });
+});
+
+describe("sampleInflationPath", () => {
+  it("keeps the fixed rate every year", () => {
+    expect(sampleInflationPath(FIXED_INFLATION, 0.025, 4, createRng(1))).toEqual([0.025, 0.025, 0.025, 0.025]);
+  });
+
+  it("replays consecutive historical years, wrapping past the end of the data", () => {
+    const cpi = HISTORICAL_RETURNS.map(h => h.inflation);
+    const path = sampleInflationPath({ kind: "historical" }, 0.025, cpi.length + 5, createRng(7));
+    const start = cpi.indexOf(path[0]);
+    path.forEach((rate, t) => expect(rate).toBe(cpi[(start + t) % cpi.length]));
+  });
+
+  it("reverts to the plan's rate", () => {
+    const path = sampleInflationPath(meanReverting, 0.025, 5000, createRng(3));
+    expect(mean(path)).toBeCloseTo(0.025, 2);
+  });
+
+  it("carries a shock into the following years", () => {
+    const path = sampleInflationPath({ ...meanReverting, persistence: 0.9 }, 0.025, 5000, createRng(5));
+    const deviations = path.map(rate => rate - 0.025);
+    const lagged = deviations.slice(1).reduce((total, d, t) => total + d * deviations[t], 0);
+    const variance = deviations.reduce((total, d) => total + d * d, 0);
+    expect(lagged / variance).toBeGreaterThan(0.8);
+  });
+});
+
+describe("toDollarBasis", () => {
+  it("deflates amounts by the price level for today's money", () => {
+    expect(toDollarBasis(150000, 1.5, "real")).toBeCloseTo(100000);
+    expect(toDollarBasis(150000, 1.5, "nominal")).toBe(150000);
+  });
+});
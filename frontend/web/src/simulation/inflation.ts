@@ -0,0 +1,65 @@
+// inflation.ts
+// Inflation models for a plan. The fixed model uses the plan's inflation rate
+// every year; historical CPI replays consecutive years of US inflation; the
+// mean-reverting model is an AR(1) process around the plan's inflation rate.
+
+import { HISTORICAL_RETURNS } from "./historicalReturns";
+import { Rng, sampleNormal } from "./random";
+
+export interface MeanRevertingInflation {
+  persistence: number; // share of last year's deviation from the mean that carries over
+  volatility: number; // standard deviation of the annual shock
+}
+
+export type InflationModel =
+  | { kind: "fixed" }
+  | { kind: "historical" }
+  | ({ kind: "meanReverting" } & MeanRevertingInflation);
+
+export type InflationModelKind = InflationModel["kind"];
+
+export const INFLATION_MODEL_LABELS: Record<InflationModelKind, string> = {
+  fixed: "Fixed rate",
+  historical: "Historical CPI",
+  meanReverting: "Mean-reverting"
+};
+
+export const FIXED_INFLATION: InflationModel = { kind: "fixed" };
+
+export const DEFAULT_MEAN_REVERTING: MeanRevertingInflation = {
+  persistence: 0.6,
+  volatility: 0.015
+};
+
+const HISTORICAL_CPI = HISTORICAL_RETURNS.map(h => h.inflation);
+
+export const HISTORICAL_MEAN_INFLATION = HISTORICAL_CPI.reduce((sum, rate) => sum + rate, 0) / HISTORICAL_CPI.length;
+
+// Expected inflation in every year, used by deterministic projections
+export function expectedInflationPath(model: InflationModel, meanRate: number, horizonYears: number): number[] {
+  const rate = model.kind === "historical" ? HISTORICAL_MEAN_INFLATION : meanRate;
+  return new Array<number>(horizonYears).fill(rate);
+}
+
+// One random inflation path. Historical paths start in a random year and wrap
+// around the end of the dataset so every start year is equally likely.
+export function sampleInflationPath(model: InflationModel, meanRate: number, horizonYears: number, rng: Rng): number[] {
+  switch (model.kind) {
+    case "historical": {
+      const start = Math.floor(rng() * HISTORICAL_CPI.length);
+      return Array.from({ length: horizonYears }, (_, t) => HISTORICAL_CPI[(start + t) % HISTORICAL_CPI.length]);
+    }
+    case "meanReverting": {
+      const path: number[] = [];
+      let rate = meanRate;
+      for (let t = 0; t < horizonYears; t++) {
+        rate = meanRate + model.persistence * (rate - meanRate) + model.volatility * sampleNormal(rng);
+        path.push(rate);
+      }
+      return path;
+    }
+    case "fixed":
+    default:
+      return new Array<number>(horizonYears).fill(meanRate);
+  }
+}
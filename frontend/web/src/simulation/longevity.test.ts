@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { deathProbability, lifeExpectancy, sampleDeathAge, survivalCurve, survivalProbability } from "./longevity";
+import { createRng } from "./random";
+
+describe("deathProbability", () => {
+  it("reads the table at five-year ages and interpolates between them", () => {
+    expect(deathProbability("male", 65)).toBeCloseTo(0.01538);
+    const between = deathProbability("male", 67);
+    expect(between).toBeGreaterThan(0.01538);
+    expect(between).toBeLessThan(0.02257);
+  });
+
+  it("is certain at the end of the table", () => {
+    expect(deathProbability("female", 120)).toBe(1);
+  });
+});
+
+describe("survivalCurve", () => {
+  it("starts at one and falls every year", () => {
+    const curve = survivalCurve("female", 65, 100);
+    expect(curve[0]).toBe(1);
+    expect(curve).toHaveLength(36);
+    curve.slice(1).forEach((alive, i) => expect(alive).toBeLessThan(curve[i]));
+    expect(survivalProbability("female", 65, 100)).toBe(curve[35]);
+  });
+});
+
+describe("lifeExpectancy", () => {
+  it("is longer for women and shrinks with age", () => {
+    expect(lifeExpectancy("female", 65)).toBeGreaterThan(lifeExpectancy("male", 65));
+    expect(lifeExpectancy("male", 65)).toBeGreaterThan(15);
+    expect(lifeExpectancy("male", 65)).toBeLessThan(20);
+    expect(lifeExpectancy("male", 80)).toBeLessThan(lifeExpectancy("male", 65));
+  });
+});
+
+describe("sampleDeathAge", () => {
+  it("dies in the first year on a low draw and lives to the end of the table on high ones", () => {
+    expect(sampleDeathAge("male", 65, () => 0)).toBe(65);
+    expect(sampleDeathAge("male", 65, () => 0.999999)).toBe(120);
+  });
+
+  it("averages out to the table's life expectancy", () => {
+    const rng = createRng(11);
+    const trials = 20000;
+    let total = 0;
+    for (let i = 0; i < trials; i++) total += sampleDeathAge("female", 65, rng) - 65;
+    // Deaths are counted at the start of their year of life; the expectancy assumes mid-year
+    expect(total / trials + 0.5).toBeCloseTo(lifeExpectancy("female", 65), 0);
+  });
+});
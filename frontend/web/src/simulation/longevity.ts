@@ -0,0 +1,94 @@
+// longevity.ts
+// Period mortality tables and random lifetimes, so plans can be judged on the
+// chance of outliving their assets instead of a single planning age.
+
+import { Household, HouseholdMemberId, toPrimaryAge } from "./household";
+import { Rng } from "./random";
+
+export type Sex = "male" | "female";
+
+export const SEX_LABELS: Record<Sex, string> = {
+  male: "Male",
+  female: "Female"
+};
+
+export interface LongevityConfig {
+  sex: Sex;
+  spouseSex?: Sex; // household plans; the other table when not given
+}
+
+export const otherSex = (sex: Sex): Sex => (sex === "male" ? "female" : "male");
+
+// Monte Carlo runs with mortality simulate the plan to this age
+export const OLDEST_PLANNING_AGE = 110;
+export const MORTALITY_TABLE_NAME = "US SSA 2019 period life table";
+
+// Annual probability of death q(x) at five-year ages, approximating the US
+// Social Security Administration 2019 period life table. Ages in between are
+// interpolated log-linearly; death is certain at MAX_TABLE_AGE.
+const MIN_TABLE_AGE = 50;
+const MAX_TABLE_AGE = 120;
+const TABLE_STEP = 5;
+
+const DEATH_PROBABILITIES: Record<Sex, number[]> = {
+  //    50       55       60       65       70       75       80       85       90      95     100    105    110    115
+  male: [0.00486, 0.00735, 0.01077, 0.01538, 0.02257, 0.03459, 0.05499, 0.09140, 0.15350, 0.2453, 0.3500, 0.4500, 0.5500, 0.6500],
+  female: [0.00306, 0.00447, 0.00640, 0.00958, 0.01480, 0.02350, 0.03865, 0.06613, 0.11800, 0.2000, 0.3000, 0.4100, 0.5200, 0.6300]
+};
+
+export function deathProbability(sex: Sex, age: number): number {
+  if (age >= MAX_TABLE_AGE) return 1;
+  const table = DEATH_PROBABILITIES[sex];
+  const position = (Math.max(age, MIN_TABLE_AGE) - MIN_TABLE_AGE) / TABLE_STEP;
+  const index = Math.floor(position);
+  if (index >= table.length - 1) return table[table.length - 1];
+  const weight = position - index;
+  return Math.exp((1 - weight) * Math.log(table[index]) + weight * Math.log(table[index + 1]));
+}
+
+// Probability of being alive at each age from currentAge (1) up to toAge
+export function survivalCurve(sex: Sex, currentAge: number, toAge: number): number[] {
+  const curve = [1];
+  for (let age = currentAge; age < toAge; age++) {
+    curve.push(curve[curve.length - 1] * (1 - deathProbability(sex, age)));
+  }
+  return curve;
+}
+
+export function survivalProbability(sex: Sex, currentAge: number, toAge: number): number {
+  const curve = survivalCurve(sex, currentAge, toAge);
+  return curve[curve.length - 1];
+}
+
+// Expected remaining years of life, assuming deaths fall mid-year
+export function lifeExpectancy(sex: Sex, currentAge: number): number {
+  const curve = survivalCurve(sex, currentAge, MAX_TABLE_AGE);
+  return curve.slice(1).reduce((sum, alive) => sum + alive, 0) + 0.5;
+}
+
+// Age in whose year of life death occurs, for someone alive at currentAge
+export function sampleDeathAge(sex: Sex, currentAge: number, rng: Rng): number {
+  let age = currentAge;
+  while (age < MAX_TABLE_AGE && rng() >= deathProbability(sex, age)) {
+    age++;
+  }
+  return age;
+}
+
+// Each member's age at death in their own age, for a household whose owner is
+// alive at ownerAge
+export function sampleHouseholdDeathAges(
+  config: LongevityConfig,
+  household: Household,
+  ownerAge: number,
+  rng: Rng
+): Record<HouseholdMemberId, number> {
+  return {
+    primary: sampleDeathAge(config.sex, ownerAge, rng),
+    spouse: sampleDeathAge(config.spouseSex ?? otherSex(config.sex), ownerAge + household.spouseAgeOffset, rng)
+  };
+}
+
+// The owner's age in the year the last member of the household dies
+export const lastDeathAge = (household: Household, deathAges: Record<HouseholdMemberId, number>) =>
+  Math.max(deathAges.primary, toPrimaryAge(household, "spouse", deathAges.spouse));
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SEED, runMonteCarlo } from "./monteCarlo";
+import { BUILT_IN_PROFILES } from "./capitalMarkets";
+import { DEFAULT_GLIDE_PATHS } from "./glidePath";
+import { ProjectionInputs } from "./projection";
+import { UNCORRELATED } from "./returnGenerators";
+import { baseInputs as inputs, monteCarloOptions as options } from "./testFixtures";
+
+describe("runMonteCarlo", () => {
+  it("reproduces the same results for the same seed", () => {
+    expect(runMonteCarlo(inputs, options)).toEqual(runMonteCarlo(inputs, options));
+  });
+
+  it("reproduces longevity and inflation draws for the same seed", () => {
+    const stochastic: ProjectionInputs = {
+      ...inputs,
+      longevity: { sex: "female" },
+      inflationModel: { kind: "meanReverting", persistence: 0.6, volatility: 0.015 }
+    };
+    expect(runMonteCarlo(stochastic, options)).toEqual(runMonteCarlo(stochastic, options));
+  });
+
+  it("draws different paths for a different seed", () => {
+    const first = runMonteCarlo(inputs, options);
+    const second = runMonteCarlo(inputs, { ...options, seed: DEFAULT_SEED + 1 });
+    expect(second.endingBalancePercentiles).not.toEqual(first.endingBalancePercentiles);
+  });
+
+  it("ends household longevity trials at the second death", () => {
+    const single: ProjectionInputs = { ...inputs, longevity: { sex: "male" } };
+    const couple: ProjectionInputs = {
+      ...single,
+      household: {
+        spouseAgeOffset: -3,
+        lifeExpectancy: { primary: 85, spouse: 88 },
+        survivorSpendingShare: 1
+      }
+    };
+    const alone = runMonteCarlo(single, options).longevity!;
+    const together = runMonteCarlo(couple, options).longevity!;
+    expect(together.medianDeathAge).toBeGreaterThan(alone.medianDeathAge);
+    expect(together.outliveAssetsProbability).toBeGreaterThan(alone.outliveAssetsProbability);
+  });
+
+  it("uses the plan's return model unless the options set one", () => {
+    const bootstrap: ProjectionInputs = { ...inputs, returnModel: { kind: "bootstrap", blockLength: 5 } };
+    const planModel = runMonteCarlo(bootstrap, options);
+    expect(planModel.endingBalancePercentiles).not.toEqual(runMonteCarlo(inputs, options).endingBalancePercentiles);
+    expect(runMonteCarlo(bootstrap, { ...options, returnModel: { kind: "normal" } }))
+      .toEqual(runMonteCarlo({ ...inputs, returnModel: { kind: "normal" } }, options));
+  });
+
+  it("draws glide-path asset returns with the profile's correlations", () => {
+    const profile = BUILT_IN_PROFILES[0];
+    const glide: ProjectionInputs = { ...inputs, glidePath: DEFAULT_GLIDE_PATHS.static, capitalMarkets: profile };
+    const correlated = runMonteCarlo(glide, options);
+    const uncorrelated = runMonteCarlo({ ...glide, capitalMarkets: { ...profile, correlations: UNCORRELATED } }, options);
+    expect(correlated.endingBalancePercentiles).not.toEqual(uncorrelated.endingBalancePercentiles);
+  });
+
+  it("reports a success probability between 0 and 1", () => {
+    const { successProbability } = runMonteCarlo(inputs, options);
+    expect(successProbability).toBeGreaterThan(0);
+    expect(successProbability).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,202 @@
+// monteCarlo.ts
+// Seeded Monte Carlo simulation of a plan over randomly drawn annual returns
+// and, when the plan uses a stochastic inflation model, random inflation. Plans
+// with a longevity model also draw an age at death in every trial and succeed
+// when the money lasts as long as the retiree. Couples draw one for each
+// member: the first death starts the survivor path and the trial ends at the
+// second. Plans with a long-term-care risk
+// draw whether and when care is needed. A trial that funds every year but
+// leaves less than the plan's bequest target also counts as a failure. A
+// return model, when given, draws correlated stock, bond and cash returns
+// (see returnGenerators.ts) in place of the single return distribution.
+// Glide-path and bucket plans always draw correlated asset-class returns,
+// in the shape of the return distribution when no model is given.
+
+import { portfolioReturn } from "./assetClasses";
+import { ProfileVersion, REFERENCE_ALLOCATION, portfolioVolatility, profileVersion } from "./capitalMarkets";
+import { glidePathReturns } from "./glidePath";
+import { sampleLtcEvent } from "./health";
+import { toPrimaryAge } from "./household";
+import { FIXED_INFLATION, sampleInflationPath } from "./inflation";
+import { OLDEST_PLANNING_AGE, lastDeathAge, sampleDeathAge, sampleHouseholdDeathAges } from "./longevity";
+import { DEFAULT_RETIREMENT_AGE, ProjectionInputs, assetAssumptions, bequestShortfall, simulateCashflows } from "./projection";
+import { Rng, createRng, sampleNormal } from "./random";
+import { ReturnGenerator, ReturnModel, UNCORRELATED, createReturnGenerator } from "./returnGenerators";
+import { median, percentile } from "./stats";
+
+export const DEFAULT_TRIALS = 1000;
+export const PANEL_TRIALS = 400; // per variant, in panels that simulate several variants of a plan
+export const DEFAULT_SEED = 20240101;
+export const DEFAULT_VOLATILITY = 0.1;
+
+export interface ReturnDistribution {
+  type: "normal" | "lognormal";
+  mean: number; // arithmetic mean annual return
+  volatility: number; // standard deviation of annual returns
+}
+
+export interface MonteCarloOptions {
+  trials: number;
+  seed: number;
+  distribution: ReturnDistribution; // ignored when the options or the plan set a return model
+  returnModel?: ReturnModel; // draws correlated stock, bond and cash returns; defaults to the plan's
+}
+
+export const PERCENTILES = [10, 25, 50, 75, 90] as const;
+export type Percentile = typeof PERCENTILES[number];
+
+export interface MonteCarloResult {
+  trials: number;
+  seed: number;
+  successProbability: number; // share of trials that funded spending every year and met any bequest target
+  endingBalancePercentiles: Record<Percentile, number>; // at death when the plan models longevity
+  realEndingBalancePercentiles: Record<Percentile, number>; // in today's money
+  medianDepletionYear: number | null; // median across failed trials only
+  medianRealIncome: number[]; // each year's median real income across trials still alive that year
+  longevity?: LongevityOutcome;
+  marketAssumptions?: ProfileVersion; // the capital-market profile behind the simulation
+}
+
+export interface LongevityOutcome {
+  outliveAssetsProbability: number; // share of trials where the money ran out before death
+  medianDeathAge: number; // owner's age at the last death in the household
+  deathAgePercentiles: Record<Percentile, number>;
+}
+
+export function sampleReturn(distribution: ReturnDistribution, rng: Rng): number {
+  const z = sampleNormal(rng);
+  if (distribution.type === "normal") {
+    return Math.max(-1, distribution.mean + distribution.volatility * z);
+  }
+
+  // Lognormal growth factor with the requested arithmetic mean and volatility
+  const growth = 1 + distribution.mean;
+  const sigma2 = Math.log(1 + (distribution.volatility * distribution.volatility) / (growth * growth));
+  const mu = Math.log(growth) - sigma2 / 2;
+  return Math.exp(mu + Math.sqrt(sigma2) * z) - 1;
+}
+
+// Lognormal returns around the plan's return rate, with the volatility of the
+// reference mix under the plan's capital-market profile
+export function planReturnDistribution(inputs: ProjectionInputs): ReturnDistribution {
+  const volatility = inputs.capitalMarkets
+    ? portfolioVolatility(inputs.capitalMarkets, REFERENCE_ALLOCATION)
+    : DEFAULT_VOLATILITY;
+  return { type: "lognormal", mean: inputs.returnRate, volatility };
+}
+
+// Plans with a glide path weight the generated asset returns by each year's
+// mix. Other plans hold the reference mix, shifted so its mean is the plan's
+// return rate.
+function generatedReturns(inputs: ProjectionInputs, generator: ReturnGenerator, years: number, rng: Rng): number[] {
+  const path = generator.samplePath(years, rng);
+  if (inputs.glidePath) return glidePathReturns(inputs.glidePath, path, inputs.horizonYears);
+  const shift = inputs.returnRate - portfolioReturn(REFERENCE_ALLOCATION, generator.expectedReturns);
+  return path.map(returns => portfolioReturn(REFERENCE_ALLOCATION, returns) + shift);
+}
+
+export function runMonteCarlo(inputs: ProjectionInputs, options: MonteCarloOptions): MonteCarloResult {
+  const rng = createRng(options.seed);
+  const inflationModel = inputs.inflationModel ?? FIXED_INFLATION;
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  // A younger spouse can outlive the owner's OLDEST_PLANNING_AGE
+  const spouseYears = inputs.household ? Math.max(0, -inputs.household.spouseAgeOffset) : 0;
+  const horizonYears = inputs.longevity
+    ? Math.max(1, OLDEST_PLANNING_AGE - startAge + 1 + spouseYears)
+    : inputs.horizonYears;
+  const trialInputs = { ...inputs, horizonYears };
+  const bucketPlan = inputs.strategy?.kind === "bucket";
+  const returnModel = options.returnModel ?? inputs.returnModel;
+  const generator = returnModel || inputs.glidePath || bucketPlan
+    ? createReturnGenerator(returnModel ?? { kind: options.distribution.type }, {
+        assets: assetAssumptions(inputs),
+        correlations: inputs.capitalMarkets?.correlations ?? UNCORRELATED
+      })
+    : null;
+  const endingBalances: number[] = [];
+  const realEndingBalances: number[] = [];
+  const depletionYears: number[] = [];
+  const deathAges: number[] = [];
+  const incomeByYear: number[][] = Array.from({ length: horizonYears }, () => []);
+  let failures = 0;
+
+  for (let trial = 0; trial < options.trials; trial++) {
+    const assetPath = bucketPlan && generator ? generator.samplePath(horizonYears, rng) : undefined;
+    const returns = assetPath
+      ? []
+      : generator
+        ? generatedReturns(inputs, generator, horizonYears, rng)
+        : Array.from({ length: horizonYears }, () => sampleReturn(options.distribution, rng));
+
+    const inflation = sampleInflationPath(inflationModel, inputs.inflationRate, horizonYears, rng);
+
+    const ltcRisk = inputs.healthcare?.ltc;
+    const ltcEvent = ltcRisk ? sampleLtcEvent(ltcRisk, startAge, rng) : null;
+
+    let deathAge: number | null = null;
+    let household = inputs.household;
+    if (inputs.longevity && household) {
+      const deathAges = sampleHouseholdDeathAges(inputs.longevity, household, startAge, rng);
+      const spouseFirst = toPrimaryAge(household, "spouse", deathAges.spouse) < deathAges.primary;
+      household = { ...household, lifeExpectancy: deathAges, survivor: spouseFirst ? "primary" : "spouse" };
+      deathAge = lastDeathAge(household, deathAges);
+    } else if (inputs.longevity) {
+      deathAge = sampleDeathAge(inputs.longevity.sex, startAge, rng);
+    }
+
+    const projection = simulateCashflows({ ...trialInputs, household }, returns, inflation, ltcEvent, assetPath);
+    const yearsLived = deathAge === null ? horizonYears : Math.min(deathAge - startAge + 1, horizonYears);
+    for (let t = 0; t < yearsLived; t++) {
+      incomeByYear[t].push(projection.years[t].realIncome);
+    }
+
+    if (deathAge === null) {
+      endingBalances.push(projection.endingBalance);
+      realEndingBalances.push(projection.endingBalance / projection.endingPriceLevel);
+      if (projection.depletionYear !== null) {
+        depletionYears.push(projection.depletionYear);
+      }
+      if (projection.depletionYear !== null || projection.bequestShortfall > 0) failures++;
+      continue;
+    }
+
+    // Only the years someone is alive count; the balance at the last death is the legacy
+    const lastYear = projection.years[yearsLived - 1];
+    const priceLevelAtDeath = lastYear.priceLevel * (1 + (inflation[yearsLived - 1] ?? 0));
+    const outlived = projection.depletionYear !== null && projection.depletionYear <= yearsLived;
+    deathAges.push(deathAge);
+    endingBalances.push(lastYear.endBalance);
+    realEndingBalances.push(lastYear.endBalance / priceLevelAtDeath);
+    if (outlived) {
+      depletionYears.push(projection.depletionYear!);
+    }
+    if (outlived || bequestShortfall(inputs, lastYear.endBalance, priceLevelAtDeath) > 0) failures++;
+  }
+
+  endingBalances.sort((a, b) => a - b);
+  realEndingBalances.sort((a, b) => a - b);
+  deathAges.sort((a, b) => a - b);
+  const endingBalancePercentiles = {} as Record<Percentile, number>;
+  const realEndingBalancePercentiles = {} as Record<Percentile, number>;
+  const deathAgePercentiles = {} as Record<Percentile, number>;
+  for (const p of PERCENTILES) {
+    endingBalancePercentiles[p] = percentile(endingBalances, p);
+    realEndingBalancePercentiles[p] = percentile(realEndingBalances, p);
+    deathAgePercentiles[p] = percentile(deathAges, p);
+  }
+  const depletionShare = options.trials > 0 ? depletionYears.length / options.trials : 1;
+
+  return {
+    trials: options.trials,
+    seed: options.seed,
+    successProbability: options.trials > 0 ? 1 - failures / options.trials : 0,
+    endingBalancePercentiles,
+    realEndingBalancePercentiles,
+    medianDepletionYear: depletionYears.length > 0 ? Math.round(median(depletionYears)) : null,
+    medianRealIncome: incomeByYear.filter(incomes => incomes.length > 0).map(median),
+    longevity: inputs.longevity
+      ? { outliveAssetsProbability: depletionShare, medianDeathAge: deathAgePercentiles[50], deathAgePercentiles }
+      : undefined,
+    marketAssumptions: inputs.capitalMarkets && profileVersion(inputs.capitalMarkets)
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { Household } from "./household";
+import { incomeAtAge } from "./income";
+import { Pension, compareLumpSum, pensionIncomeStreams } from "./pension";
+
+const pension: Pension = { owner: "primary", annualAmount: 20000, cola: 0.02, survivorShare: 0.5 };
+
+const household: Household = {
+  spouseAgeOffset: -2,
+  lifeExpectancy: { primary: 80, spouse: 90 },
+  survivorSpendingShare: 0.7
+};
+
+describe("pensionIncomeStreams", () => {
+  it("pays from the plan start and grows with the COLA, not the price level", () => {
+    const streams = pensionIncomeStreams([pension], 65, undefined, null);
+    expect(incomeAtAge(streams, 65, 1.5)).toBe(20000);
+    expect(incomeAtAge(streams, 75, 1.5)).toBeCloseTo(20000 * Math.pow(1.02, 10));
+  });
+
+  it("starts a spouse's pension at the spouse's own age", () => {
+    const streams = pensionIncomeStreams([{ ...pension, owner: "spouse", startAge: 65 }], 65, household, null);
+    expect(incomeAtAge(streams, 66)).toBe(0);
+    expect(incomeAtAge(streams, 67)).toBe(20000);
+  });
+
+  it("continues the survivor's share of the payment reached at the owner's death", () => {
+    const streams = pensionIncomeStreams([pension], 65, household, { member: "primary", age: 80 });
+    const atDeath = 20000 * Math.pow(1.02, 15);
+    expect(incomeAtAge(streams, 79)).toBeCloseTo(20000 * Math.pow(1.02, 14));
+    expect(incomeAtAge(streams, 80)).toBeCloseTo(atDeath * 0.5);
+    expect(incomeAtAge(streams, 81)).toBeCloseTo(atDeath * 0.5 * 1.02);
+  });
+
+  it("keeps paying in full when the other member dies", () => {
+    const streams = pensionIncomeStreams([pension], 65, household, { member: "spouse", age: 80 });
+    expect(incomeAtAge(streams, 85)).toBeCloseTo(20000 * Math.pow(1.02, 20));
+  });
+});
+
+describe("compareLumpSum", () => {
+  const level: Pension = { owner: "primary", annualAmount: 10000, survivorShare: 0 };
+  // Twenty payments of 10,000 are worth this much at 5%
+  const lumpSum = Array.from({ length: 20 }, (_, t) => 10000 / Math.pow(1.05, t)).reduce((a, b) => a + b, 0);
+
+  it("finds the discount rate at which the payments are worth the lump sum", () => {
+    expect(compareLumpSum(level, lumpSum, 65, 85, 0.04).impliedDiscountRate).toBeCloseTo(0.05, 6);
+  });
+
+  it("prefers the pension when the portfolio is expected to earn less than that rate", () => {
+    const pensionBetter = compareLumpSum(level, lumpSum, 65, 85, 0.04);
+    expect(pensionBetter.prefer).toBe("pension");
+    expect(pensionBetter.pensionValue).toBeGreaterThan(lumpSum);
+    expect(compareLumpSum(level, lumpSum, 65, 85, 0.06).prefer).toBe("lumpSum");
+  });
+
+  it("values the survivor's share after the owner's life expectancy", () => {
+    const withSurvivor = compareLumpSum({ ...level, survivorShare: 0.5 }, lumpSum, 65, 85, 0.05, 5);
+    expect(withSurvivor.pensionValue).toBeGreaterThan(lumpSum);
+  });
+});
@@ -0,0 +1,111 @@
+// pension.ts
+// Defined-benefit pensions paid to a household member, with an optional fixed
+// COLA and survivor benefit, and a lump-sum vs. annuity comparison.
+
+import { FirstDeath, Household, HouseholdMemberId, toPrimaryAge } from "./household";
+import { IncomeStream } from "./income";
+
+export interface Pension {
+  owner: HouseholdMemberId;
+  annualAmount: number; // nominal payment in the first year
+  startAge?: number; // owner's own age at the first payment; defaults to the plan start
+  cola?: number; // fixed annual increase; none when omitted or 0
+  survivorShare: number; // share of the payment that continues to the surviving spouse
+  lumpSumOffer?: number; // cash the plan offers instead of the pension
+}
+
+const PENSION_LABELS: Record<HouseholdMemberId, string> = {
+  primary: "Pension",
+  spouse: "Spouse Pension"
+};
+
+// Pension streams in the plan owner's ages. When a member dies their pensions
+// stop and the survivor's share of the payment reached by then continues,
+// still growing with the COLA.
+export function pensionIncomeStreams(
+  pensions: Pension[],
+  planStartAge: number,
+  household: Household | undefined,
+  death: FirstDeath | null
+): IncomeStream[] {
+  const streams: IncomeStream[] = [];
+
+  for (const pension of pensions) {
+    if (pension.annualAmount <= 0) continue;
+    const label = PENSION_LABELS[pension.owner];
+    const cola = pension.cola ?? 0;
+    const startAge = pension.startAge !== undefined && household
+      ? toPrimaryAge(household, pension.owner, pension.startAge)
+      : pension.startAge ?? planStartAge;
+    const dies = death !== null && death.member === pension.owner;
+
+    if (!dies || death.age > startAge) {
+      streams.push({ label, startAge, endAge: dies ? death.age : undefined, annualAmount: pension.annualAmount, cola });
+    }
+    if (dies && pension.survivorShare > 0) {
+      const survivorStart = Math.max(startAge, death.age);
+      streams.push({
+        label: `${label} (Survivor)`,
+        startAge: survivorStart,
+        annualAmount: pension.annualAmount * Math.pow(1 + cola, survivorStart - startAge) * pension.survivorShare,
+        cola
+      });
+    }
+  }
+  return streams;
+}
+
+export interface LumpSumComparison {
+  lumpSum: number;
+  impliedDiscountRate: number; // rate at which the pension's payments are worth the lump sum
+  expectedReturn: number;
+  pensionValue: number; // payments discounted at the expected return
+  prefer: "pension" | "lumpSum";
+}
+
+// Nominal payments from currentAge (index 0) to the owner's life expectancy,
+// then the survivor share for survivorYears more
+function pensionPayments(pension: Pension, currentAge: number, lifeExpectancy: number, survivorYears: number): number[] {
+  const startAge = pension.startAge ?? currentAge;
+  const cola = pension.cola ?? 0;
+  const payments: number[] = [];
+  for (let age = currentAge; age < lifeExpectancy + survivorYears; age++) {
+    const share = age < lifeExpectancy ? 1 : pension.survivorShare;
+    payments.push(age >= startAge ? pension.annualAmount * Math.pow(1 + cola, age - startAge) * share : 0);
+  }
+  return payments;
+}
+
+const presentValue = (payments: number[], rate: number) =>
+  payments.reduce((total, payment, t) => total + payment / Math.pow(1 + rate, t), 0);
+
+// A pension whose implied discount rate beats what the portfolio is expected
+// to earn pays more than the lump sum could safely replicate.
+export function compareLumpSum(
+  pension: Pension,
+  lumpSum: number,
+  currentAge: number,
+  lifeExpectancy: number,
+  expectedReturn: number,
+  survivorYears = 0
+): LumpSumComparison {
+  const payments = pensionPayments(pension, currentAge, lifeExpectancy, survivorYears);
+
+  // Present value falls as the rate rises; bisect for the rate matching the lump sum
+  let low = -0.99;
+  let high = 1;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(payments, mid) > lumpSum) low = mid;
+    else high = mid;
+  }
+  const impliedDiscountRate = (low + high) / 2;
+
+  return {
+    lumpSum,
+    impliedDiscountRate,
+    expectedReturn,
+    pensionValue: presentValue(payments, expectedReturn),
+    prefer: impliedDiscountRate > expectedReturn ? "pension" : "lumpSum"
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { projectCashflows, simulateCashflows } from "./projection";
+import { baseInputs } from "./testFixtures";
+
+const flat = (rate: number, years = baseInputs.horizonYears) => new Array<number>(years).fill(rate);
+
+describe("simulateCashflows", () => {
+  it("withdraws at the start of the year and grows what is left", () => {
+    const [first] = simulateCashflows(baseInputs, flat(0.05), flat(0)).years;
+    expect(first.withdrawal).toBe(45000);
+    expect(first.investmentReturn).toBeCloseTo(955000 * 0.05);
+    expect(first.endBalance).toBeCloseTo(955000 * 1.05);
+  });
+
+  it("raises each year's withdrawal with the previous year's inflation", () => {
+    const { years } = simulateCashflows(baseInputs, flat(0.05), [0.03, 0.01, ...flat(0.025, 28)]);
+    expect(years[1].withdrawal).toBeCloseTo(45000 * 1.03);
+    expect(years[2].withdrawal).toBeCloseTo(45000 * 1.03 * 1.01);
+    expect(years[2].priceLevel).toBeCloseTo(1.03 * 1.01);
+    expect(years[2].realIncome).toBeCloseTo(45000);
+  });
+
+  it("reports the first year spending is not fully funded and withdraws nothing after", () => {
+    const inputs = { ...baseInputs, startingAssets: 250000, annualSpending: 100000, horizonYears: 5 };
+    const projection = simulateCashflows(inputs, flat(0, 5), flat(0, 5));
+    expect(projection.years.map(year => year.withdrawal)).toEqual([100000, 100000, 50000, 0, 0]);
+    expect(projection.depletionYear).toBe(3);
+    expect(projection.endingBalance).toBe(0);
+    expect(projection.totalWithdrawn).toBe(250000);
+  });
+
+  it("has no depletion year when every year is funded", () => {
+    expect(simulateCashflows(baseInputs, flat(0.05), flat(0.025)).depletionYear).toBeNull();
+  });
+
+  it("measures the bequest shortfall in today's money", () => {
+    const inputs = {
+      ...baseInputs,
+      startingAssets: 100000,
+      annualSpending: 0,
+      horizonYears: 2,
+      spending: { profile: { kind: "flat" as const }, lumpExpenses: [], bequestTarget: 150000 }
+    };
+    const projection = simulateCashflows(inputs, flat(0, 2), flat(0.25, 2));
+    expect(projection.endingPriceLevel).toBeCloseTo(1.5625);
+    expect(projection.bequestShortfall).toBeCloseTo(150000 - 100000 / 1.5625);
+  });
+});
+
+describe("projectCashflows", () => {
+  it("runs the plan at its own return and inflation rates", () => {
+    const projection = projectCashflows(baseInputs);
+    const explicit = simulateCashflows(baseInputs, flat(0.05), flat(0.025));
+    expect(projection.endingBalance).toBeCloseTo(explicit.endingBalance);
+    expect(projection.years).toHaveLength(baseInputs.horizonYears);
+    expect(projection.years[0].age).toBe(65);
+  });
+});
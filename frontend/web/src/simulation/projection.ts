@@ -0,0 +1,287 @@
+// projection.ts
+// Deterministic year-by-year cashflow projection for a retirement plan.
+// Rates are expressed as fractions (0.05 = 5%) and amounts in plan currency.
+
+import { AccountBalances } from "./accounts";
+import { AnnuityPurchase, annuityIncomeStream, annuityPremium } from "./annuity";
+import {
+  BucketBalances,
+  BucketYearState,
+  bucketTotal,
+  growBuckets,
+  initialBuckets,
+  refillBuckets,
+  withdrawFromBuckets
+} from "./bucketPortfolio";
+import { ASSET_CLASSES, Allocation, AssetAssumptions, AssetClass, AssetReturns, DEFAULT_ASSET_ASSUMPTIONS } from "./assetClasses";
+import { CapitalMarketProfile, ProfileVersion, profileVersion } from "./capitalMarkets";
+import { GlidePath, allocationForYear, glidePathReturns } from "./glidePath";
+import { HealthcareConfig, LtcEvent, healthcareCost } from "./health";
+import { Household, firstDeath, householdSpendingScale } from "./household";
+import { IncomeStream, incomeAtAge } from "./income";
+import { LongevityConfig } from "./longevity";
+import { FIXED_INFLATION, InflationModel, expectedInflationPath } from "./inflation";
+import { ReturnModel } from "./returnGenerators";
+import { RmdConfig, requiredMinimumDistribution } from "./rmd";
+import { Pension, pensionIncomeStreams } from "./pension";
+import { SocialSecurityConfig, socialSecurityIncomeStreams, survivorBenefitStreams } from "./socialSecurity";
+import { SpendingPlan, lumpExpensesAt, spendingMultiplier } from "./spendingProfile";
+import { WithdrawalStrategy, createWithdrawalPolicy } from "./withdrawal";
+
+// Mirrors SIMULATION_YEARS and DEFAULT_RETURN_RATE in PrivateRetirementPlanner.sol
+export const SIMULATION_YEARS = 30;
+export const DEFAULT_RETURN_RATE = 0.05;
+export const DEFAULT_INFLATION_RATE = 0.025;
+export const DEFAULT_RETIREMENT_AGE = 65;
+
+export interface ProjectionInputs {
+  startingAssets: number;
+  annualSpending: number; // first-year spending in today's money
+  returnRate: number; // ignored when a glide path or bucket strategy sets the allocation
+  inflationRate: number; // fixed rate, or the long-run mean of a stochastic model
+  inflationModel?: InflationModel; // defaults to the fixed rate
+  horizonYears: number;
+  startAge?: number; // age in the first projected year
+  strategy?: WithdrawalStrategy; // defaults to inflation-adjusted spending
+  glidePath?: GlidePath; // yearly stock/bond/cash mix weighting asset-class returns
+  accounts?: AccountBalances; // split of startingAssets by account type
+  rmd?: RmdConfig; // omitted when the plan has no tax-deferred assets
+  socialSecurity?: SocialSecurityConfig;
+  pensions?: Pension[];
+  household?: Household; // couples; omitted for single-person plans
+  annuity?: AnnuityPurchase; // premium comes out of startingAssets in year one
+  healthcare?: HealthcareConfig; // paid on top of the strategy's withdrawal
+  spending?: SpendingPlan; // spending profile, one-off expenses and bequest target
+  longevity?: LongevityConfig; // Monte Carlo samples the age at death instead of using horizonYears
+  capitalMarkets?: CapitalMarketProfile; // snapshot of the selected profile version; defaults to DEFAULT_ASSET_ASSUMPTIONS
+  returnModel?: ReturnModel; // Monte Carlo draws correlated asset-class returns instead of one portfolio distribution
+}
+
+export interface ProjectionYear {
+  year: number;
+  age: number;
+  startBalance: number;
+  withdrawal: number;
+  requiredDistribution: number;
+  rmdBinding: boolean; // the RMD forced a larger withdrawal than the strategy wanted
+  otherIncome: number; // benefits and other non-portfolio income received this year
+  healthcareCost: number; // premiums and any long-term care, included in the withdrawal
+  lumpExpense: number; // one-off expenses, included in the withdrawal
+  investmentReturn: number;
+  endBalance: number;
+  realIncome: number; // withdrawal plus other income, in today's money
+  priceLevel: number; // cumulative inflation at the start of the year
+  allocation?: Allocation; // this year's mix when the plan follows a glide path
+  buckets?: BucketYearState; // bucket plans run with asset-class returns
+}
+
+export interface CashflowProjection {
+  years: ProjectionYear[];
+  endingBalance: number;
+  totalWithdrawn: number;
+  depletionYear: number | null; // first year spending could not be fully funded
+  endingPriceLevel: number; // cumulative inflation at the end of the horizon
+  bequestShortfall: number; // today's money short of the bequest target; 0 when met
+  marketAssumptions?: ProfileVersion; // the capital-market profile behind the projection
+}
+
+// Projection amounts are nominal; "real" shows them in today's money
+export type DollarBasis = "nominal" | "real";
+
+export const toDollarBasis = (amount: number, priceLevel: number, basis: DollarBasis) =>
+  basis === "real" ? amount / priceLevel : amount;
+
+export function planIncomeStreams(inputs: ProjectionInputs): IncomeStream[] {
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const death = inputs.household ? firstDeath(inputs.household) : null;
+  const streams: IncomeStream[] = [];
+  if (inputs.socialSecurity) {
+    streams.push(...(death
+      ? survivorBenefitStreams(inputs.socialSecurity, death)
+      : socialSecurityIncomeStreams(inputs.socialSecurity)));
+  }
+  if (inputs.pensions) {
+    streams.push(...pensionIncomeStreams(inputs.pensions, startAge, inputs.household, death));
+  }
+  if (inputs.annuity) {
+    streams.push(annuityIncomeStream(inputs.annuity, inputs.startingAssets, startAge));
+  }
+  return streams;
+}
+
+// Nominal health spending at the given age, zero when the plan has none
+export function healthcareExpense(inputs: ProjectionInputs, age: number, ltcEvent: LtcEvent | null = null): number {
+  if (!inputs.healthcare) return 0;
+  return healthcareCost(inputs.healthcare, inputs.startAge ?? DEFAULT_RETIREMENT_AGE, age, ltcEvent);
+}
+
+// Share of planned spending needed at the given age
+export function spendingScale(inputs: ProjectionInputs, age: number): number {
+  const household = inputs.household ? householdSpendingScale(inputs.household, age) : 1;
+  const profile = inputs.spending
+    ? spendingMultiplier(inputs.spending.profile, inputs.startAge ?? DEFAULT_RETIREMENT_AGE, age, inputs.annualSpending)
+    : 1;
+  return household * profile;
+}
+
+// Nominal one-off expenses at the given age, zero when the plan has none
+export function lumpExpense(inputs: ProjectionInputs, age: number, priceLevel: number): number {
+  return inputs.spending ? lumpExpensesAt(inputs.spending, age) * priceLevel : 0;
+}
+
+// How far a balance falls short of the plan's bequest target, in today's money
+export function bequestShortfall(inputs: ProjectionInputs, balance: number, priceLevel: number): number {
+  return Math.max(0, (inputs.spending?.bequestTarget ?? 0) - balance / priceLevel);
+}
+
+// Portfolio balance left after any annuity premium is paid
+export function investableAssets(inputs: ProjectionInputs): number {
+  const premium = inputs.annuity ? annuityPremium(inputs.annuity, inputs.startingAssets) : 0;
+  return Math.max(0, inputs.startingAssets - premium);
+}
+
+// Runs the plan against an explicit sequence of annual returns and inflation
+// rates. The withdrawal strategy's amount plus health spending and one-off
+// expenses is taken at the start of each year; the remaining balance then
+// earns that year's return.
+// Monte Carlo passes a sampled long-term-care event; projections have none.
+// Bucket plans given asset-class returns hold cash, bond and equity buckets
+// that each earn their own class's return, and ignore the portfolio returns.
+export function simulateCashflows(
+  inputs: ProjectionInputs,
+  returns: number[],
+  inflation: number[],
+  ltcEvent: LtcEvent | null = null,
+  assetReturns?: AssetReturns[]
+): CashflowProjection {
+  const years: ProjectionYear[] = [];
+  let balance = investableAssets(inputs);
+  let priceLevel = 1;
+  let totalWithdrawn = 0;
+  let depletionYear: number | null = null;
+  const policy = createWithdrawalPolicy(inputs);
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const incomeStreams = planIncomeStreams(inputs);
+
+  // Withdrawal the buckets are sized against, before it is actually taken
+  const bucketNeed = (t: number, level: number) => {
+    const age = startAge + t;
+    const spending = inputs.annualSpending * level * spendingScale(inputs, age);
+    return Math.max(0, spending - incomeAtAge(incomeStreams, age, level)) + healthcareExpense(inputs, age);
+  };
+  const bucketConfig = inputs.strategy?.kind === "bucket" && assetReturns ? inputs.strategy : null;
+  let buckets: BucketBalances | null = bucketConfig ? initialBuckets(balance, bucketNeed(0, 1), bucketConfig) : null;
+
+  for (let t = 0; t < inputs.horizonYears; t++) {
+    const age = startAge + t;
+    const otherIncome = incomeAtAge(incomeStreams, age, priceLevel);
+    const health = healthcareExpense(inputs, age, ltcEvent);
+    const lump = lumpExpense(inputs, age, priceLevel);
+    const target = health + lump + policy.nextWithdrawal({
+      year: t + 1,
+      balance,
+      priceLevel,
+      otherIncome,
+      spendingScale: spendingScale(inputs, age),
+      previousReturn: t > 0 ? returns[t - 1] ?? 0 : 0,
+      previousInflation: t > 0 ? inflation[t - 1] ?? 0 : 0,
+      yearsRemaining: inputs.horizonYears - t
+    });
+    const requiredDistribution = inputs.rmd
+      ? requiredMinimumDistribution(age, balance * inputs.rmd.taxDeferredShare, inputs.rmd.startAge)
+      : 0;
+    const rmdBinding = requiredDistribution > target && balance > 0;
+    const withdrawal = Math.min(Math.max(target, requiredDistribution), balance);
+    const invested = balance - withdrawal;
+    let investmentReturn = invested * (returns[t] ?? 0);
+    let endBalance = Math.max(0, invested + investmentReturn);
+    let bucketYear: BucketYearState | undefined;
+    if (buckets && bucketConfig && assetReturns) {
+      const r = assetReturns[t] ?? { stocks: 0, bonds: 0, cash: 0 };
+      const drawn = withdrawFromBuckets(buckets, withdrawal);
+      buckets = growBuckets(buckets, r);
+      const nextNeed = bucketNeed(t + 1, priceLevel * (1 + (inflation[t] ?? 0)));
+      const refilled = refillBuckets(buckets, bucketConfig, nextNeed, r.stocks > 0);
+      endBalance = bucketTotal(buckets);
+      investmentReturn = endBalance - invested;
+      bucketYear = { ...drawn, cashDry: drawn.fromCash < withdrawal && balance > 0, refilled, endBalances: { ...buckets } };
+    }
+
+    if (depletionYear === null && withdrawal < target) {
+      depletionYear = t + 1;
+    }
+
+    years.push({
+      year: t + 1,
+      age,
+      allocation: inputs.glidePath ? allocationForYear(inputs.glidePath, t, inputs.horizonYears) : undefined,
+      startBalance: balance,
+      withdrawal,
+      requiredDistribution,
+      rmdBinding,
+      otherIncome,
+      healthcareCost: health,
+      lumpExpense: lump,
+      investmentReturn,
+      endBalance,
+      realIncome: (withdrawal + otherIncome) / priceLevel,
+      priceLevel,
+      buckets: bucketYear
+    });
+
+    totalWithdrawn += withdrawal;
+    balance = endBalance;
+    priceLevel *= 1 + (inflation[t] ?? 0);
+  }
+
+  return {
+    years,
+    endingBalance: balance,
+    totalWithdrawn,
+    depletionYear,
+    endingPriceLevel: priceLevel,
+    bequestShortfall: bequestShortfall(inputs, balance, priceLevel),
+    marketAssumptions: inputs.capitalMarkets && profileVersion(inputs.capitalMarkets)
+  };
+}
+
+// Expected inflation in each year under the plan's inflation model
+export function expectedInflation(inputs: ProjectionInputs): number[] {
+  return expectedInflationPath(inputs.inflationModel ?? FIXED_INFLATION, inputs.inflationRate, inputs.horizonYears);
+}
+
+// Return assumptions per asset class from the plan's capital-market profile
+export const assetAssumptions = (inputs: ProjectionInputs): Record<AssetClass, AssetAssumptions> =>
+  inputs.capitalMarkets?.assets ?? DEFAULT_ASSET_ASSUMPTIONS;
+
+// Expected portfolio return in each year: the plan's return rate, or the
+// glide path's mix of expected asset-class returns
+export function expectedReturns(inputs: ProjectionInputs): number[] {
+  if (!inputs.glidePath) return new Array<number>(inputs.horizonYears).fill(inputs.returnRate);
+  return glidePathReturns(inputs.glidePath, expectedAssetReturns(inputs), inputs.horizonYears);
+}
+
+// Expected return compounded over the horizon, as a single annual rate
+export function averageExpectedReturn(inputs: ProjectionInputs): number {
+  const returns = expectedReturns(inputs);
+  if (returns.length === 0) return inputs.returnRate;
+  const growth = returns.reduce((total, rate) => total * (1 + rate), 1);
+  return Math.pow(growth, 1 / returns.length) - 1;
+}
+
+// Each year's expected asset-class returns under the plan's capital-market profile
+export function expectedAssetReturns(inputs: ProjectionInputs): AssetReturns[] {
+  const assetReturns = {} as AssetReturns;
+  for (const asset of ASSET_CLASSES) {
+    assetReturns[asset] = assetAssumptions(inputs)[asset].expectedReturn;
+  }
+  return new Array<AssetReturns>(inputs.horizonYears).fill(assetReturns);
+}
+
+// Projects the plan assuming expected returns and inflation every year
+export function projectCashflows(inputs: ProjectionInputs): CashflowProjection {
+  const returns = expectedReturns(inputs);
+  const inflation = expectedInflation(inputs);
+  const assetReturns = inputs.strategy?.kind === "bucket" ? expectedAssetReturns(inputs) : undefined;
+  return simulateCashflows(inputs, returns, inflation, null, assetReturns);
+}
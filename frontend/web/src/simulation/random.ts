@@ -0,0 +1,45 @@
+// random.ts
+// Seedable pseudo-random number generation so simulations are reproducible.
+
+export type Rng = () => number;
+
+// mulberry32: small, fast 32-bit generator returning floats in [0, 1)
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw via the Box-Muller transform
+export function sampleNormal(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Chi-squared draw with the given degrees of freedom, as a gamma variate with
+// shape df/2 and scale 2 (Marsaglia-Tsang)
+export function sampleChiSquared(degreesOfFreedom: number, rng: Rng): number {
+  let shape = degreesOfFreedom / 2;
+  // Shapes below 1 are boosted by one and scaled back with a uniform power
+  const boost = shape < 1 ? Math.pow(rng() || Number.MIN_VALUE, 1 / shape) : 1;
+  if (shape < 1) shape += 1;
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const z = sampleNormal(rng);
+    const v = Math.pow(1 + c * z, 3);
+    if (v <= 0) continue;
+    const u = rng();
+    if (Math.log(u || Number.MIN_VALUE) < z * z / 2 + d - d * v + d * Math.log(v)) {
+      return 2 * d * v * boost;
+    }
+  }
+}
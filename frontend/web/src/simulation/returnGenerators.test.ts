@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ASSET_ASSUMPTIONS } from "./assetClasses";
+import { HISTORICAL_RETURNS } from "./historicalReturns";
+import { createRng } from "./random";
+import { DEFAULT_RETURN_MODELS, MarketAssumptions, UNCORRELATED, createReturnGenerator } from "./returnGenerators";
+
+const market: MarketAssumptions = { assets: DEFAULT_ASSET_ASSUMPTIONS, correlations: UNCORRELATED };
+
+// Always draws the same extreme shock: Box-Muller with u = 1e-12 and v = 0.5
+// gives z = -sqrt(-2 ln 1e-12), about -7.4 standard deviations
+const extremeRng = () => {
+  let call = 0;
+  return () => (call++ % 2 === 0 ? 1e-12 : 0.5);
+};
+
+describe("createReturnGenerator", () => {
+  it("never returns a loss of more than 100%", () => {
+    const [year] = createReturnGenerator(DEFAULT_RETURN_MODELS.normal, market).samplePath(1, extremeRng());
+    expect(year.stocks).toBe(-1);
+    expect(year.bonds).toBeGreaterThan(-1);
+  });
+
+  it("keeps lognormal returns above -100% for the same draw", () => {
+    const [year] = createReturnGenerator(DEFAULT_RETURN_MODELS.lognormal, market).samplePath(1, extremeRng());
+    expect(year.stocks).toBeGreaterThan(-1);
+    expect(year.stocks).toBeLessThan(-0.5);
+  });
+
+  it("matches the assumed means over many draws", () => {
+    const path = createReturnGenerator(DEFAULT_RETURN_MODELS.studentT, market).samplePath(20000, createRng(7));
+    const mean = path.reduce((sum, year) => sum + year.stocks, 0) / path.length;
+    expect(mean).toBeCloseTo(DEFAULT_ASSET_ASSUMPTIONS.stocks.expectedReturn, 2);
+  });
+
+  it("correlates classes as the matrix says", () => {
+    const correlated: MarketAssumptions = {
+      ...market,
+      correlations: {
+        stocks: { stocks: 1, bonds: 0.9, cash: 0 },
+        bonds: { stocks: 0.9, bonds: 1, cash: 0 },
+        cash: { stocks: 0, bonds: 0, cash: 1 }
+      }
+    };
+    const path = createReturnGenerator(DEFAULT_RETURN_MODELS.normal, correlated).samplePath(5000, createRng(11));
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const stocks = path.map(year => year.stocks);
+    const bonds = path.map(year => year.bonds);
+    const ms = mean(stocks);
+    const mb = mean(bonds);
+    const cov = mean(stocks.map((s, i) => (s - ms) * (bonds[i] - mb)));
+    const sd = (values: number[], m: number) => Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+    expect(cov / (sd(stocks, ms) * sd(bonds, mb))).toBeCloseTo(0.9, 1);
+  });
+
+  it("bootstraps blocks of consecutive historical years", () => {
+    const path = createReturnGenerator(DEFAULT_RETURN_MODELS.bootstrap, market).samplePath(5, createRng(3));
+    const start = HISTORICAL_RETURNS.findIndex(h => h.stocks === path[0].stocks && h.bonds === path[0].bonds);
+    expect(start).toBeGreaterThanOrEqual(0);
+    path.forEach((year, k) => {
+      expect(year.stocks).toBe(HISTORICAL_RETURNS[(start + k) % HISTORICAL_RETURNS.length].stocks);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// returnGenerators.ts
+// Generators of yearly stock, bond and cash returns for Monte Carlo trials.
+// Parametric generators draw the three classes together through the Cholesky
+// factor of the correlation matrix, with normal, lognormal or Student-t
+// shocks; the Student-t shares one chi-squared draw across the classes each
+// year, so fat-tailed years hit every class at once. The bootstrap generator
+// resamples blocks of consecutive historical years, keeping the history's own
+// correlations, fat tails and short-run momentum. Every generator draws a
+// whole path per trial, so callers only see asset returns by year.
+
+import { ASSET_CLASSES, AssetAssumptions, AssetClass, AssetReturns, historicalAssetReturns } from "./assetClasses";
+import { CorrelationMatrix, choleskyFactor } from "./capitalMarkets";
+import { HISTORICAL_RETURNS, HistoricalYear } from "./historicalReturns";
+import { Rng, sampleChiSquared, sampleNormal } from "./random";
+
+export type ReturnModel =
+  | { kind: "normal" }
+  | { kind: "lognormal" }
+  | { kind: "studentT"; degreesOfFreedom: number }
+  | { kind: "bootstrap"; blockLength: number };
+
+export type ReturnModelKind = ReturnModel["kind"];
+
+export const RETURN_MODEL_LABELS: Record<ReturnModelKind, string> = {
+  normal: "Correlated normal",
+  lognormal: "Correlated lognormal",
+  studentT: "Student-t (fat tails)",
+  bootstrap: "Historical block bootstrap"
+};
+
+export const DEFAULT_RETURN_MODELS: Record<ReturnModelKind, ReturnModel> = {
+  normal: { kind: "normal" },
+  lognormal: { kind: "lognormal" },
+  studentT: { kind: "studentT", degreesOfFreedom: 5 },
+  bootstrap: { kind: "bootstrap", blockLength: 5 }
+};
+
+export interface ReturnGenerator {
+  expectedReturns: AssetReturns; // arithmetic mean of each class's draws
+  samplePath(years: number, rng: Rng): AssetReturns[];
+}
+
+// Market assumptions a parametric generator draws from
+export interface MarketAssumptions {
+  assets: Record<AssetClass, AssetAssumptions>;
+  correlations: CorrelationMatrix;
+}
+
+// Correlation matrix with no correlation between classes
+export const UNCORRELATED: CorrelationMatrix = {
+  stocks: { stocks: 1, bonds: 0, cash: 0 },
+  bonds: { stocks: 0, bonds: 1, cash: 0 },
+  cash: { stocks: 0, bonds: 0, cash: 1 }
+};
+
+const meanReturns = (assets: Record<AssetClass, AssetAssumptions>) => {
+  const means = {} as AssetReturns;
+  for (const asset of ASSET_CLASSES) means[asset] = assets[asset].expectedReturn;
+  return means;
+};
+
+// Correlated unit-variance shocks for one year, in ASSET_CLASSES order
+function correlatedShocks(lower: number[][], rng: Rng, scale = 1): number[] {
+  const z = ASSET_CLASSES.map(() => sampleNormal(rng));
+  return lower.map(row => scale * row.reduce((sum, weight, k) => sum + weight * z[k], 0));
+}
+
+function parametricGenerator(market: MarketAssumptions, model: ReturnModel): ReturnGenerator {
+  const lower = choleskyFactor(market.correlations);
+  if (!lower) throw new RangeError("Correlation matrix is not positive semidefinite");
+  if (model.kind === "studentT" && !(model.degreesOfFreedom > 2)) {
+    throw new RangeError("Student-t returns need more than 2 degrees of freedom");
+  }
+
+  // Lognormal parameters per class matching the arithmetic mean and volatility;
+  // the correlations apply to the log returns
+  const logParams = ASSET_CLASSES.map(asset => {
+    const { expectedReturn, volatility } = market.assets[asset];
+    const growth = 1 + expectedReturn;
+    const sigma2 = Math.log(1 + (volatility * volatility) / (growth * growth));
+    return { mu: Math.log(growth) - sigma2 / 2, sigma: Math.sqrt(sigma2) };
+  });
+
+  const sampleYear = (rng: Rng): AssetReturns => {
+    // A t variate is a normal divided by sqrt(chi-squared / df); (df - 2) / df
+    // rescales it to unit variance
+    const scale = model.kind === "studentT"
+      ? Math.sqrt((model.degreesOfFreedom - 2) / sampleChiSquared(model.degreesOfFreedom, rng))
+      : 1;
+    const shocks = correlatedShocks(lower, rng, scale);
+    const returns = {} as AssetReturns;
+    ASSET_CLASSES.forEach((asset, i) => {
+      const { expectedReturn, volatility } = market.assets[asset];
+      // Normal and Student-t tails can reach past a total loss; nothing can lose more than everything
+      returns[asset] = model.kind === "lognormal"
+        ? Math.exp(logParams[i].mu + logParams[i].sigma * shocks[i]) - 1
+        : Math.max(-1, expectedReturn + volatility * shocks[i]);
+    });
+    return returns;
+  };
+
+  return {
+    expectedReturns: meanReturns(market.assets),
+    samplePath: (years, rng) => Array.from({ length: years }, () => sampleYear(rng))
+  };
+}
+
+// Circular block bootstrap: blocks start in a random year and wrap around the
+// end of the history, so every year is equally likely to be drawn
+function bootstrapGenerator(blockLength: number, history: HistoricalYear[]): ReturnGenerator {
+  const years = historicalAssetReturns(history);
+  if (years.length === 0) throw new RangeError("Bootstrap needs at least one historical year");
+  const length = Math.max(1, Math.min(Math.round(blockLength), years.length));
+
+  const expectedReturns = {} as AssetReturns;
+  for (const asset of ASSET_CLASSES) {
+    expectedReturns[asset] = years.reduce((sum, year) => sum + year[asset], 0) / years.length;
+  }
+
+  return {
+    expectedReturns,
+    samplePath: (horizonYears, rng) => {
+      const path: AssetReturns[] = [];
+      while (path.length < horizonYears) {
+        const start = Math.floor(rng() * years.length);
+        for (let k = 0; k < length && path.length < horizonYears; k++) {
+          path.push(years[(start + k) % years.length]);
+        }
+      }
+      return path;
+    }
+  };
+}
+
+export function createReturnGenerator(
+  model: ReturnModel,
+  market: MarketAssumptions,
+  history: HistoricalYear[] = HISTORICAL_RETURNS
+): ReturnGenerator {
+  return model.kind === "bootstrap"
+    ? bootstrapGenerator(model.blockLength, history)
+    : parametricGenerator(market, model);
+}
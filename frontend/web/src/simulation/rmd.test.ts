@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { EARLIEST_RMD_START_AGE, distributionPeriod, requiredMinimumDistribution } from "./rmd";
+
+describe("distributionPeriod", () => {
+  it("reads the Uniform Lifetime Table and holds its last period past 120", () => {
+    expect(distributionPeriod(75)).toBe(24.6);
+    expect(distributionPeriod(120)).toBe(2.0);
+    expect(distributionPeriod(124)).toBe(2.0);
+  });
+
+  it("rejects ages before the table starts", () => {
+    expect(() => distributionPeriod(EARLIEST_RMD_START_AGE - 1)).toThrow(RangeError);
+  });
+});
+
+describe("requiredMinimumDistribution", () => {
+  it("is zero before the start age and the balance over the period after it", () => {
+    expect(requiredMinimumDistribution(72, 500000)).toBe(0);
+    expect(requiredMinimumDistribution(73, 530000)).toBeCloseTo(20000);
+  });
+
+  it("is zero for an empty account", () => {
+    expect(requiredMinimumDistribution(80, 0)).toBe(0);
+  });
+
+  it("rejects a start age before the table", () => {
+    expect(() => requiredMinimumDistribution(70, 500000, 70)).toThrow(RangeError);
+  });
+});
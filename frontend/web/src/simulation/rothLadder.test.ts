@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { ProjectionInputs } from "./projection";
+import { DEFAULT_RMD_START_AGE } from "./rmd";
+import { planRothConversions } from "./rothLadder";
+import { DEFAULT_SEQUENCING } from "./taxSequencing";
+import { baseInputs } from "./testFixtures";
+
+const inputs: ProjectionInputs = { ...baseInputs, annualSpending: 40000, startAge: 60 };
+
+const sequencing = {
+  ...DEFAULT_SEQUENCING,
+  accounts: { taxable: 200000, taxDeferred: 700000, roth: 100000 }
+};
+
+describe("planRothConversions", () => {
+  const plan = planRothConversions(inputs, "conventional", sequencing, { targetBracketRate: 0.22 });
+
+  it("converts only before the RMD start age by default", () => {
+    expect(plan.years.filter(year => year.age < DEFAULT_RMD_START_AGE).some(year => year.conversion > 0)).toBe(true);
+    expect(plan.years.filter(year => year.age >= DEFAULT_RMD_START_AGE).every(year => year.conversion === 0)).toBe(true);
+    expect(plan.totalConverted).toBeCloseTo(plan.years.reduce((total, year) => total + year.conversion, 0));
+  });
+
+  it("pays more tax while converting and shrinks the required distributions after", () => {
+    expect(plan.conversionTaxCost).toBeGreaterThan(0);
+    expect(plan.totalRmdReduction).toBeGreaterThan(0);
+    const firstRmdYear = plan.years.find(year => year.age === DEFAULT_RMD_START_AGE)!;
+    expect(firstRmdYear.rmdWithLadder).toBeLessThan(firstRmdYear.rmdWithoutLadder);
+  });
+
+  it("splits the tax difference into the conversion cost and later savings", () => {
+    const difference = plan.withLadder.lifetimeTaxes - plan.withoutLadder.lifetimeTaxes;
+    expect(plan.conversionTaxCost - plan.futureTaxSavings).toBeCloseTo(difference);
+  });
+
+  it("stops at the given age", () => {
+    const early = planRothConversions(inputs, "conventional", sequencing, { targetBracketRate: 0.22, stopAge: 63 });
+    expect(early.years.filter(year => year.conversion > 0).map(year => year.age)).toEqual([60, 61, 62]);
+  });
+});
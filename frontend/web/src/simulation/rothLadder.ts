@@ -0,0 +1,79 @@
+// rothLadder.ts
+// Roth conversion ladder: convert tax-deferred savings to Roth in low-income
+// years and weigh the tax paid now against smaller RMDs and taxes later.
+
+import { ProjectionInputs } from "./projection";
+import { DEFAULT_RMD_START_AGE } from "./rmd";
+import {
+  SequencingOptions,
+  SequencingResult,
+  WithdrawalOrdering,
+  simulateWithdrawalOrder
+} from "./taxSequencing";
+
+export interface RothLadderOptions {
+  targetBracketRate: number; // convert up to the top of this bracket
+  stopAge?: number; // defaults to the plan's RMD start age
+}
+
+export interface RothLadderYear {
+  year: number;
+  age: number;
+  conversion: number;
+  taxWithLadder: number;
+  taxWithoutLadder: number;
+  rmdWithLadder: number;
+  rmdWithoutLadder: number;
+}
+
+export interface RothLadderPlan {
+  years: RothLadderYear[];
+  totalConverted: number;
+  conversionTaxCost: number; // extra tax paid in conversion years
+  futureTaxSavings: number; // tax avoided in the years after conversions stop
+  totalRmdReduction: number;
+  withLadder: SequencingResult;
+  withoutLadder: SequencingResult;
+}
+
+export function planRothConversions(
+  inputs: ProjectionInputs,
+  ordering: WithdrawalOrdering,
+  sequencing: SequencingOptions,
+  options: RothLadderOptions
+): RothLadderPlan {
+  const stopAge = options.stopAge ?? inputs.rmd?.startAge ?? DEFAULT_RMD_START_AGE;
+  const withoutLadder = simulateWithdrawalOrder(inputs, ordering, { ...sequencing, conversion: undefined });
+  const withLadder = simulateWithdrawalOrder(inputs, ordering, {
+    ...sequencing,
+    conversion: { bracketRate: options.targetBracketRate, stopAge }
+  });
+
+  const years = withLadder.years.map((year, i) => ({
+    year: year.year,
+    age: year.age,
+    conversion: year.rothConversion,
+    taxWithLadder: year.tax,
+    taxWithoutLadder: withoutLadder.years[i].tax,
+    rmdWithLadder: year.requiredDistribution,
+    rmdWithoutLadder: withoutLadder.years[i].requiredDistribution
+  }));
+
+  let conversionTaxCost = 0;
+  let futureTaxSavings = 0;
+  for (const year of years) {
+    const difference = year.taxWithLadder - year.taxWithoutLadder;
+    if (year.age < stopAge) conversionTaxCost += difference;
+    else futureTaxSavings -= difference;
+  }
+
+  return {
+    years,
+    totalConverted: years.reduce((total, year) => total + year.conversion, 0),
+    conversionTaxCost,
+    futureTaxSavings,
+    totalRmdReduction: years.reduce((total, year) => total + year.rmdWithoutLadder - year.rmdWithLadder, 0),
+    withLadder,
+    withoutLadder
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GLIDE_PATHS } from "./glidePath";
+import { ProjectionInputs } from "./projection";
+import { DEFAULT_SENSITIVITY_STEPS, adjustInput, runSensitivity } from "./sensitivity";
+import { baseInputs, monteCarloOptions } from "./testFixtures";
+
+// Spending high enough that no variant is certain to succeed or to fail
+const inputs: ProjectionInputs = { ...baseInputs, annualSpending: 60000, startAge: 65 };
+const options = { ...monteCarloOptions, trials: 200 };
+
+describe("adjustInput", () => {
+  it("moves rates by points and spending by a share", () => {
+    expect(adjustInput(inputs, "returnRate", -0.01).returnRate).toBeCloseTo(0.04);
+    expect(adjustInput(inputs, "inflationRate", 0.01).inflationRate).toBeCloseTo(0.035);
+    expect(adjustInput(inputs, "spending", 0.1).annualSpending).toBeCloseTo(66000);
+  });
+
+  it("moves life expectancy by the end of the horizon and retirement by its start", () => {
+    expect(adjustInput(inputs, "lifeExpectancy", 5).horizonYears).toBe(35);
+    expect(adjustInput(inputs, "lifeExpectancy", -50).horizonYears).toBe(1);
+    expect(adjustInput(inputs, "retirementAge", 2).startAge).toBe(67);
+  });
+});
+
+describe("runSensitivity", () => {
+  const report = runSensitivity(inputs, DEFAULT_SENSITIVITY_STEPS, options);
+  const row = (input: string) => report.rows.find(r => r.input === input)!;
+
+  it("ranks the inputs by their swing in success", () => {
+    expect(report.rows).toHaveLength(5);
+    report.rows.slice(1).forEach((r, i) => expect(r.swing).toBeLessThanOrEqual(report.rows[i].swing));
+    report.rows.forEach(r => expect(r.swing).toBeCloseTo(Math.abs(r.higherSuccess - r.lowerSuccess)));
+  });
+
+  it("moves success the way each input should", () => {
+    expect(row("returnRate").higherSuccess).toBeGreaterThan(row("returnRate").lowerSuccess);
+    expect(row("spending").higherSuccess).toBeLessThan(row("spending").lowerSuccess);
+    expect(row("lifeExpectancy").higherSuccess).toBeLessThan(row("lifeExpectancy").lowerSuccess);
+    expect(report.baseSuccess).toBeLessThan(row("spending").lowerSuccess);
+    expect(report.baseSuccess).toBeGreaterThan(row("spending").higherSuccess);
+  });
+
+  it("leaves return out for plans on a glide path", () => {
+    const glide = runSensitivity({ ...inputs, glidePath: DEFAULT_GLIDE_PATHS.static }, DEFAULT_SENSITIVITY_STEPS, options);
+    expect(glide.rows.map(r => r.input)).not.toContain("returnRate");
+  });
+});
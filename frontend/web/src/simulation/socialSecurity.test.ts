@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { incomeAtAge } from "./income";
+import { SocialSecurityConfig, annualRetirementBenefit, lifetimeBenefits, socialSecurityIncomeStreams } from "./socialSecurity";
+
+const config: SocialSecurityConfig = {
+  primary: { pia: 2000, fullRetirementAge: 67, claimAge: 67, lifeExpectancy: 90 },
+  spouse: { pia: 800, fullRetirementAge: 67, claimAge: 67, lifeExpectancy: 90, ageOffset: -2 }
+};
+
+describe("socialSecurityIncomeStreams", () => {
+  it("pays benefits past life expectancy", () => {
+    const streams = socialSecurityIncomeStreams(config);
+    expect(incomeAtAge(streams, 95, 1)).toBeCloseTo(incomeAtAge(streams, 89, 1));
+    expect(incomeAtAge(streams, 95, 1)).toBeGreaterThan(0);
+  });
+});
+
+describe("lifetimeBenefits", () => {
+  it("counts the primary's own benefit only until life expectancy", () => {
+    const single: SocialSecurityConfig = { primary: config.primary };
+    expect(lifetimeBenefits(single, 65)).toBeCloseTo(annualRetirementBenefit(config.primary) * (90 - 67));
+  });
+});
@@ -0,0 +1,227 @@
+// socialSecurity.ts
+// Social Security / state pension benefits by claiming age, including spousal
+// benefits, and a search for the claiming ages that serve the plan best.
+// Benefit amounts are in today's money; COLAs keep them level in real terms.
+
+import { FirstDeath, HouseholdMemberId, otherMember } from "./household";
+import { IncomeStream } from "./income";
+
+export const EARLIEST_CLAIMING_AGE = 62;
+export const LATEST_CLAIMING_AGE = 70;
+export const DEFAULT_FULL_RETIREMENT_AGE = 67;
+export const DEFAULT_LIFE_EXPECTANCY = 90;
+export const SPOUSAL_BENEFIT_SHARE = 0.5;
+
+export interface Claimant {
+  pia: number; // monthly primary insurance amount at full retirement age
+  fullRetirementAge: number;
+  claimAge: number;
+  lifeExpectancy: number;
+}
+
+export interface SocialSecurityConfig {
+  primary: Claimant;
+  spouse?: Claimant & { ageOffset: number }; // spouse age minus primary age
+}
+
+// Own-benefit multiplier: 5/9% per month for the first 36 months early, 5/12%
+// per month beyond that, and 2/3% delayed credit per month after FRA
+export function retirementBenefitFactor(claimAge: number, fullRetirementAge: number): number {
+  const months = Math.round((claimAge - fullRetirementAge) * 12);
+  if (months >= 0) return 1 + months * (2 / 3) / 100;
+  const early = -months;
+  return 1 - (Math.min(early, 36) * (5 / 9) + Math.max(0, early - 36) * (5 / 12)) / 100;
+}
+
+// Spousal multiplier: 25/36% per month for the first 36 months early, 5/12%
+// beyond that, and no delayed credits
+export function spousalBenefitFactor(claimAge: number, fullRetirementAge: number): number {
+  const early = Math.max(0, Math.round((fullRetirementAge - claimAge) * 12));
+  return 1 - (Math.min(early, 36) * (25 / 36) + Math.max(0, early - 36) * (5 / 12)) / 100;
+}
+
+export function annualRetirementBenefit(claimant: Claimant): number {
+  return claimant.pia * 12 * retirementBenefitFactor(claimant.claimAge, claimant.fullRetirementAge);
+}
+
+// Excess spousal benefit on top of the spouse's own benefit
+export function annualSpousalBenefit(spouse: Claimant, primary: Claimant): number {
+  const excess = Math.max(0, SPOUSAL_BENEFIT_SHARE * primary.pia - spouse.pia);
+  return excess * 12 * spousalBenefitFactor(spouse.claimAge, spouse.fullRetirementAge);
+}
+
+// Benefit streams in the primary claimant's ages. Benefits are paid for life;
+// only valuations cut them off at each claimant's life expectancy.
+function benefitStreams(config: SocialSecurityConfig, untilLifeExpectancy: boolean): IncomeStream[] {
+  const { primary, spouse } = config;
+  const streams: IncomeStream[] = [];
+
+  if (primary.pia > 0) {
+    streams.push({
+      label: "Social Security",
+      startAge: primary.claimAge,
+      endAge: untilLifeExpectancy ? primary.lifeExpectancy : undefined,
+      annualAmount: annualRetirementBenefit(primary)
+    });
+  }
+
+  if (spouse) {
+    const toPrimaryAge = (spouseAge: number) => spouseAge - spouse.ageOffset;
+    const spouseEndAge = untilLifeExpectancy ? toPrimaryAge(spouse.lifeExpectancy) : undefined;
+
+    if (spouse.pia > 0) {
+      streams.push({
+        label: "Spouse Social Security",
+        startAge: toPrimaryAge(spouse.claimAge),
+        endAge: spouseEndAge,
+        annualAmount: annualRetirementBenefit(spouse)
+      });
+    }
+
+    // Spousal benefits start once both the spouse and the primary have filed
+    const spousal = annualSpousalBenefit(spouse, primary);
+    if (spousal > 0) {
+      streams.push({
+        label: "Spousal Benefit",
+        startAge: Math.max(primary.claimAge, toPrimaryAge(spouse.claimAge)),
+        endAge: spouseEndAge,
+        annualAmount: spousal
+      });
+    }
+  }
+
+  return streams;
+}
+
+// Benefit streams while both claimants are alive, paid for life; projections
+// switch to survivorBenefitStreams at the first death
+export const socialSecurityIncomeStreams = (config: SocialSecurityConfig) => benefitStreams(config, false);
+
+// Benefit streams on a survivor path, in the primary claimant's ages: the
+// deceased's own and spousal benefits stop at death, the survivor is paid past
+// the plan horizon and tops their own benefit up to the deceased's from the
+// later of the death and their own claim.
+export function survivorBenefitStreams(config: SocialSecurityConfig, death: FirstDeath): IncomeStream[] {
+  const { primary, spouse } = config;
+  const offset = spouse?.ageOffset ?? 0;
+  const claimAge: Record<HouseholdMemberId, number> = {
+    primary: primary.claimAge,
+    spouse: spouse ? spouse.claimAge - offset : Infinity
+  };
+  const benefit: Record<HouseholdMemberId, number> = {
+    primary: primary.pia > 0 ? annualRetirementBenefit(primary) : 0,
+    spouse: spouse && spouse.pia > 0 ? annualRetirementBenefit(spouse) : 0
+  };
+  const survivor = otherMember(death.member);
+  const streams: IncomeStream[] = [];
+
+  const push = (label: string, startAge: number, annualAmount: number, endAge?: number) => {
+    if (annualAmount > 0 && (endAge === undefined || startAge < endAge)) {
+      streams.push({ label, startAge, endAge, annualAmount });
+    }
+  };
+
+  const labels: Record<HouseholdMemberId, string> = { primary: "Social Security", spouse: "Spouse Social Security" };
+  push(labels[death.member], claimAge[death.member], benefit[death.member], death.age);
+  push(labels[survivor], claimAge[survivor], benefit[survivor]);
+
+  if (spouse) {
+    push(
+      "Spousal Benefit",
+      Math.max(primary.claimAge, claimAge.spouse),
+      annualSpousalBenefit(spouse, primary),
+      death.age
+    );
+    push(
+      "Survivor Benefit",
+      Math.max(death.age, claimAge[survivor]),
+      Math.max(0, benefit[death.member] - benefit[survivor])
+    );
+  }
+
+  return streams;
+}
+
+// Total benefits received until each claimant's life expectancy, discounted at
+// a real rate
+export function lifetimeBenefits(config: SocialSecurityConfig, currentAge: number, discountRate = 0): number {
+  const streams = benefitStreams(config, true);
+  const lastAge = Math.max(...streams.map(s => s.endAge ?? currentAge), currentAge);
+  let total = 0;
+
+  for (let age = currentAge; age < lastAge; age++) {
+    const discount = Math.pow(1 + discountRate, age - currentAge);
+    for (const stream of streams) {
+      if (age >= stream.startAge && (stream.endAge === undefined || age < stream.endAge)) {
+        total += stream.annualAmount / discount;
+      }
+    }
+  }
+  return total;
+}
+
+export type ClaimingObjective = "lifetimeIncome" | "planSuccess";
+
+export interface ClaimingOption {
+  claimAge: number;
+  spouseClaimAge?: number;
+  annualBenefit: number; // household benefit once everyone has claimed
+  lifetimeIncome: number;
+  successProbability?: number;
+}
+
+export interface ClaimingSearch {
+  currentAge: number;
+  objective: ClaimingObjective;
+  discountRate?: number;
+  // Success probability of the plan with the given benefits; required for "planSuccess"
+  evaluatePlan?: (config: SocialSecurityConfig) => number;
+}
+
+export interface ClaimingResult {
+  options: ClaimingOption[];
+  best: ClaimingOption;
+}
+
+const claimingAges = () => {
+  const ages: number[] = [];
+  for (let age = EARLIEST_CLAIMING_AGE; age <= LATEST_CLAIMING_AGE; age++) ages.push(age);
+  return ages;
+};
+
+// Tries every whole-year claiming age (and spouse claiming age) and picks the
+// combination that maximizes the objective; ties go to higher lifetime income.
+export function optimizeClaimingAge(config: SocialSecurityConfig, search: ClaimingSearch): ClaimingResult {
+  const options: ClaimingOption[] = [];
+  const spouseAges = config.spouse ? claimingAges() : [undefined];
+
+  for (const claimAge of claimingAges()) {
+    for (const spouseClaimAge of spouseAges) {
+      const candidate: SocialSecurityConfig = {
+        primary: { ...config.primary, claimAge },
+        spouse: config.spouse && spouseClaimAge !== undefined
+          ? { ...config.spouse, claimAge: spouseClaimAge }
+          : undefined
+      };
+      const streams = socialSecurityIncomeStreams(candidate);
+
+      options.push({
+        claimAge,
+        spouseClaimAge,
+        annualBenefit: streams.reduce((total, s) => total + s.annualAmount, 0),
+        lifetimeIncome: lifetimeBenefits(candidate, search.currentAge, search.discountRate),
+        successProbability: search.objective === "planSuccess" && search.evaluatePlan
+          ? search.evaluatePlan(candidate)
+          : undefined
+      });
+    }
+  }
+
+  const score = (option: ClaimingOption) =>
+    search.objective === "planSuccess" ? option.successProbability ?? 0 : option.lifetimeIncome;
+  const best = options.reduce((a, b) =>
+    score(b) > score(a) || (score(b) === score(a) && b.lifetimeIncome > a.lifetimeIncome) ? b : a
+  );
+
+  return { options, best };
+}
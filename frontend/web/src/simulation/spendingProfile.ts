@@ -0,0 +1,84 @@
+// spendingProfile.ts
+// Spending that changes through retirement instead of staying flat in real
+// terms. A phased profile scales planned spending for the go-go, slow-go and
+// no-go years; the smile curve follows Blanchett's estimate of the yearly
+// real change in retiree spending, which falls through the seventies and
+// turns back up late in life. One-off expenses and a bequest target are
+// planned alongside the profile.
+
+export type SpendingProfileKind = "flat" | "phased" | "smile";
+
+export const SPENDING_PROFILE_KINDS: SpendingProfileKind[] = ["flat", "phased", "smile"];
+
+export const SPENDING_PROFILE_LABELS: Record<SpendingProfileKind, string> = {
+  flat: "Flat (inflation-adjusted)",
+  phased: "Go-go / slow-go / no-go",
+  smile: "Retirement smile"
+};
+
+// Multipliers on planned spending; each phase starts at its age
+export interface SpendingPhases {
+  goGoMultiplier: number;
+  slowGoAge: number;
+  slowGoMultiplier: number;
+  noGoAge: number;
+  noGoMultiplier: number;
+}
+
+export const DEFAULT_SPENDING_PHASES: SpendingPhases = {
+  goGoMultiplier: 1,
+  slowGoAge: 75,
+  slowGoMultiplier: 0.85,
+  noGoAge: 85,
+  noGoMultiplier: 0.75
+};
+
+export type SpendingProfile =
+  | { kind: "flat" }
+  | ({ kind: "phased" } & SpendingPhases)
+  | { kind: "smile" };
+
+export interface LumpExpense {
+  age: number;
+  amount: number; // today's money
+}
+
+export interface SpendingPlan {
+  profile: SpendingProfile;
+  lumpExpenses: LumpExpense[];
+  bequestTarget: number; // today's money left at the end of the plan; 0 for none
+}
+
+// Blanchett (2014): yearly real change in spending at an age, given the
+// planned annual spending
+const smileChange = (age: number, annualSpending: number) =>
+  0.00008 * age * age - 0.0125 * age - 0.0066 * Math.log(Math.max(annualSpending, 1)) + 0.546;
+
+// Share of the first year's planned spending needed at the given age
+export function spendingMultiplier(
+  profile: SpendingProfile,
+  startAge: number,
+  age: number,
+  annualSpending: number
+): number {
+  switch (profile.kind) {
+    case "phased":
+      if (age >= profile.noGoAge) return profile.noGoMultiplier;
+      if (age >= profile.slowGoAge) return profile.slowGoMultiplier;
+      return profile.goGoMultiplier;
+    case "smile": {
+      let multiplier = 1;
+      for (let a = startAge; a < age; a++) {
+        multiplier *= 1 + smileChange(a, annualSpending);
+      }
+      return multiplier;
+    }
+    case "flat":
+    default:
+      return 1;
+  }
+}
+
+// One-off expenses falling at the given age, in today's money
+export const lumpExpensesAt = (plan: SpendingPlan, age: number) =>
+  plan.lumpExpenses.reduce((total, expense) => total + (expense.age === age ? expense.amount : 0), 0);
@@ -0,0 +1,45 @@
+// strategies.ts
+// Withdrawal strategy presets offered when creating a plan.
+
+import { DEFAULT_BUCKETS } from "./buckets";
+import { DEFAULT_GUARDRAILS } from "./guardrails";
+import { SIMULATION_YEARS } from "./projection";
+import { DEFAULT_VPW, vpwExpectedReturn, vpwRate } from "./vpw";
+import { INFLATION_ADJUSTED, WithdrawalStrategy } from "./withdrawal";
+
+export type StrategyId = "conservative" | "moderate" | "aggressive" | "guardrails" | "vpw" | "bucket";
+
+export interface StrategyPreset {
+  id: StrategyId;
+  label: string;
+  withdrawalRate: number; // initial withdrawal as a fraction of starting assets
+  strategy: WithdrawalStrategy;
+}
+
+export const STRATEGY_PRESETS: Record<StrategyId, StrategyPreset> = {
+  conservative: { id: "conservative", label: "Conservative", withdrawalRate: 0.035, strategy: INFLATION_ADJUSTED },
+  moderate: { id: "moderate", label: "Moderate", withdrawalRate: 0.045, strategy: INFLATION_ADJUSTED },
+  aggressive: { id: "aggressive", label: "Aggressive", withdrawalRate: 0.055, strategy: INFLATION_ADJUSTED },
+  guardrails: {
+    id: "guardrails",
+    label: "Guardrails",
+    withdrawalRate: 0.05,
+    strategy: { kind: "guardrails", ...DEFAULT_GUARDRAILS }
+  },
+  vpw: {
+    id: "vpw",
+    label: "VPW",
+    withdrawalRate: vpwRate(SIMULATION_YEARS, vpwExpectedReturn(DEFAULT_VPW)),
+    strategy: { kind: "vpw", ...DEFAULT_VPW }
+  },
+  bucket: {
+    id: "bucket",
+    label: "Bucket",
+    withdrawalRate: 0.04,
+    strategy: { kind: "bucket", ...DEFAULT_BUCKETS }
+  }
+};
+
+export function getStrategyPreset(id: string): StrategyPreset {
+  return STRATEGY_PRESETS[id as StrategyId] || STRATEGY_PRESETS.conservative;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { ProjectionInputs, projectCashflows } from "./projection";
+import { STRESS_SCENARIOS, runStressTest, runStressTests } from "./stressTests";
+import { baseInputs } from "./testFixtures";
+
+const inputs: ProjectionInputs = { ...baseInputs, startAge: 65 };
+
+const scenario = (id: string) => STRESS_SCENARIOS.find(s => s.id === id)!;
+
+describe("runStressTest", () => {
+  it("ends below the plan's own projection after a crash at retirement", () => {
+    const result = runStressTest(inputs, scenario("crash1929"), { startYear: 0 });
+    const expected = projectCashflows(inputs);
+    expect(result.realEndingBalance).toBeLessThan(expected.endingBalance / expected.endingPriceLevel);
+  });
+
+  it("starts the sequence no later than the final year", () => {
+    expect(runStressTest(inputs, scenario("dotCom"), { startYear: 99 }).startYear).toBe(inputs.horizonYears - 1);
+  });
+
+  it("fails a plan that stays funded but misses its bequest target", () => {
+    const result = runStressTest(
+      { ...inputs, spending: { profile: { kind: "flat" }, lumpExpenses: [], bequestTarget: 10000000 } },
+      scenario("gfc"),
+      { startYear: 0 }
+    );
+    expect(result.projection.depletionYear).toBeNull();
+    expect(result.survived).toBe(false);
+  });
+
+  it("reports depletion when spending outlasts the crash", () => {
+    const result = runStressTest({ ...inputs, annualSpending: 90000 }, scenario("crash1929"), { startYear: 0 });
+    expect(result.survived).toBe(false);
+    expect(result.projection.depletionYear).not.toBeNull();
+  });
+});
+
+describe("runStressTests", () => {
+  it("replays every scenario", () => {
+    expect(runStressTests(inputs, { startYear: 0 }).map(r => r.scenario.id)).toEqual(STRESS_SCENARIOS.map(s => s.id));
+  });
+});
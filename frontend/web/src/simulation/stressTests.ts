@@ -0,0 +1,171 @@
+// stressTests.ts
+// Named historical crash sequences a plan can be replayed against. The
+// sequence replaces the plan's expected returns and inflation for as many
+// years as it lasts, starting at retirement or a given number of years in;
+// every other year keeps the plan's expectations, so the result shows what
+// the crash alone does to the plan.
+
+import { ASSET_CLASSES, AssetReturns, historicalAssetReturns } from "./assetClasses";
+import { DEFAULT_STOCK_ALLOCATION } from "./backtest";
+import { glidePathReturns } from "./glidePath";
+import { HISTORICAL_RETURNS, HistoricalYear } from "./historicalReturns";
+import {
+  CashflowProjection,
+  ProjectionInputs,
+  assetAssumptions,
+  expectedAssetReturns,
+  expectedInflation,
+  expectedReturns,
+  simulateCashflows
+} from "./projection";
+
+export type StressScenarioId = "crash1929" | "stagflation" | "dotCom" | "gfc" | "japan1990";
+
+export interface StressScenario {
+  id: StressScenarioId;
+  label: string;
+  description: string;
+  history: HistoricalYear[];
+}
+
+// Japan has no series in historicalReturns.ts. Approximate annual figures in
+// percent: Nikkei 225 price return, 10-year JGB total return, call rate and
+// CPI inflation.
+// [year, stocks, bonds, bills, inflation]
+const JAPAN_1990_PERCENT: [number, number, number, number, number][] = [
+  [1990, -38.7, 2.0, 7.2, 3.1],
+  [1991, -3.6, 12.5, 7.5, 3.3],
+  [1992, -26.4, 11.0, 4.6, 1.7],
+  [1993, 2.9, 13.0, 3.1, 1.3],
+  [1994, 13.2, -3.0, 2.2, 0.7],
+  [1995, 0.7, 13.5, 1.2, -0.1],
+  [1996, -2.6, 7.0, 0.5, 0.1],
+  [1997, -21.2, 9.0, 0.5, 1.7],
+  [1998, -9.3, 2.5, 0.4, 0.7],
+  [1999, 36.8, -1.0, 0.0, -0.3],
+  [2000, -27.2, 4.0, 0.1, -0.7],
+  [2001, -23.5, 3.0, 0.1, -0.7],
+  [2002, -18.6, 3.5, 0.0, -0.9],
+  [2003, 24.5, -0.5, 0.0, -0.3]
+];
+
+const usHistory = (firstYear: number, lastYear: number) =>
+  HISTORICAL_RETURNS.filter(h => h.year >= firstYear && h.year <= lastYear);
+
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: "crash1929",
+    label: "1929 Crash",
+    description: "Great Depression and the 1937 relapse, 1929–1941",
+    history: usHistory(1929, 1941)
+  },
+  {
+    id: "stagflation",
+    label: "1966–1982 Stagflation",
+    description: "Flat real stock returns and high inflation, 1966–1982",
+    history: usHistory(1966, 1982)
+  },
+  {
+    id: "dotCom",
+    label: "2000 Dot-com",
+    description: "Tech bust into the financial crisis, 2000–2009",
+    history: usHistory(2000, 2009)
+  },
+  {
+    id: "gfc",
+    label: "2008 Financial Crisis",
+    description: "Global financial crisis and recovery, 2008–2012",
+    history: usHistory(2008, 2012)
+  },
+  {
+    id: "japan1990",
+    label: "Japan 1990",
+    description: "Japanese asset bubble collapse and deflation, 1990–2003",
+    history: JAPAN_1990_PERCENT.map(([year, stocks, bonds, bills, inflation]) => ({
+      year,
+      stocks: stocks / 100,
+      bonds: bonds / 100,
+      bills: bills / 100,
+      inflation: inflation / 100
+    }))
+  }
+];
+
+export interface StressTestOptions {
+  startYear: number; // years into retirement the sequence begins; 0 at retirement
+  stockAllocation?: number; // remainder in bonds; plans with a glide path follow it instead
+}
+
+export interface StressTestResult {
+  scenario: StressScenario;
+  startYear: number;
+  projection: CashflowProjection;
+  realEndingBalance: number;
+  survived: boolean; // funded every year and met any bequest target, as a Monte Carlo trial must
+}
+
+interface StressedPaths {
+  returns: number[];
+  inflation: number[];
+  assetReturns?: AssetReturns[]; // bucket plans
+}
+
+// Yearly portfolio returns (asset-class returns for bucket plans) and
+// inflation with the scenario spliced in
+function stressedPaths(
+  inputs: ProjectionInputs,
+  history: HistoricalYear[],
+  startYear: number,
+  stockAllocation: number
+): StressedPaths {
+  const crashYear = (t: number): HistoricalYear | undefined => (t >= startYear ? history[t - startYear] : undefined);
+  const inflation = expectedInflation(inputs).map((rate, t) => crashYear(t)?.inflation ?? rate);
+
+  if (inputs.strategy?.kind === "bucket") {
+    const assetReturns = expectedAssetReturns(inputs).map((expected, t) => {
+      const year = crashYear(t);
+      return year ? historicalAssetReturns([year])[0] : expected;
+    });
+    return { returns: [], inflation, assetReturns };
+  }
+
+  if (!inputs.glidePath) {
+    const returns = expectedReturns(inputs).map((rate, t) => {
+      const year = crashYear(t);
+      return year ? stockAllocation * year.stocks + (1 - stockAllocation) * year.bonds : rate;
+    });
+    return { returns, inflation };
+  }
+
+  const expected = {} as AssetReturns;
+  for (const asset of ASSET_CLASSES) {
+    expected[asset] = assetAssumptions(inputs)[asset].expectedReturn;
+  }
+  const assetReturns = Array.from({ length: inputs.horizonYears }, (_, t) => {
+    const year = crashYear(t);
+    return year ? historicalAssetReturns([year])[0] : expected;
+  });
+  return { returns: glidePathReturns(inputs.glidePath, assetReturns, inputs.horizonYears), inflation };
+}
+
+export function runStressTest(
+  inputs: ProjectionInputs,
+  scenario: StressScenario,
+  options: StressTestOptions
+): StressTestResult {
+  const stockAllocation = options.stockAllocation ?? DEFAULT_STOCK_ALLOCATION;
+  const startYear = Math.max(0, Math.min(options.startYear, inputs.horizonYears - 1));
+  const { returns, inflation, assetReturns } = stressedPaths(inputs, scenario.history, startYear, stockAllocation);
+  const projection = simulateCashflows(inputs, returns, inflation, null, assetReturns);
+  return {
+    scenario,
+    startYear,
+    projection,
+    realEndingBalance: projection.endingBalance / projection.endingPriceLevel,
+    survived: projection.depletionYear === null && projection.bequestShortfall === 0
+  };
+}
+
+export function runStressTests(inputs: ProjectionInputs, options: StressTestOptions): StressTestResult[] {
+  return STRESS_SCENARIOS.map(scenario => runStressTest(inputs, scenario, options));
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { ProjectionInputs } from "./projection";
+import {
+  DEFAULT_SEQUENCING,
+  WITHDRAWAL_ORDERINGS,
+  compareWithdrawalOrders,
+  simulateWithdrawalOrder,
+  withdrawalTax
+} from "./taxSequencing";
+import { bracketCeiling, ordinaryIncomeTax } from "./taxes";
+import { baseInputs } from "./testFixtures";
+
+const inputs: ProjectionInputs = { ...baseInputs, annualSpending: 40000, startAge: 60 };
+
+const options = {
+  ...DEFAULT_SEQUENCING,
+  accounts: { taxable: 0, taxDeferred: 800000, roth: 200000 }
+};
+
+describe("simulateWithdrawalOrder", () => {
+  it("grosses withdrawals up to cover spending after tax", () => {
+    const result = simulateWithdrawalOrder(inputs, "conventional", options);
+    const first = result.years[0];
+    expect(first.tax).toBeGreaterThan(0);
+    expect(first.afterTaxIncome).toBeCloseTo(40000, 0);
+    expect(first.withdrawals.taxDeferred).toBeCloseTo(40000 + first.tax, 0);
+  });
+
+  it("keeps a Roth conversion and the withdrawal paying its tax inside the conversion bracket", () => {
+    const conversion = { bracketRate: 0.22, stopAge: 64 };
+    const result = simulateWithdrawalOrder(inputs, "conventional", { ...options, conversion });
+    let priceLevel = 1;
+    for (const year of result.years.filter(row => row.age < conversion.stopAge)) {
+      const ceiling = bracketCeiling(options.taxSchedule, conversion.bracketRate, priceLevel);
+      expect(year.rothConversion).toBeGreaterThan(0);
+      expect(year.withdrawals.taxDeferred + year.rothConversion).toBeLessThanOrEqual(ceiling + 1);
+      expect(year.withdrawals.taxDeferred + year.rothConversion).toBeGreaterThan(ceiling - 1);
+      priceLevel *= 1 + inputs.inflationRate;
+    }
+    expect(result.years.find(row => row.age === conversion.stopAge)?.rothConversion).toBe(0);
+  });
+
+  it("draws the taxable account first in the conventional order", () => {
+    const accounts = { taxable: 300000, taxDeferred: 500000, roth: 200000 };
+    const [first] = simulateWithdrawalOrder(inputs, "conventional", { ...options, accounts }).years;
+    expect(first.withdrawals.taxDeferred).toBe(0);
+    expect(first.withdrawals.roth).toBe(0);
+    expect(first.withdrawals.taxable).toBeGreaterThan(40000);
+  });
+
+  it("draws every account in proportion to its balance", () => {
+    const accounts = { taxable: 300000, taxDeferred: 500000, roth: 200000 };
+    const [first] = simulateWithdrawalOrder(inputs, "proportional", { ...options, accounts }).years;
+    expect(first.withdrawals.taxDeferred / first.withdrawals.taxable).toBeCloseTo(5 / 3);
+    expect(first.withdrawals.roth / first.withdrawals.taxable).toBeCloseTo(2 / 3);
+  });
+
+  it("fills the low brackets with tax-deferred money before touching the other accounts", () => {
+    const accounts = { taxable: 300000, taxDeferred: 500000, roth: 200000 };
+    const plan = { ...inputs, annualSpending: 80000 };
+    const [first] = simulateWithdrawalOrder(plan, "bracketFilling", { ...options, accounts }).years;
+    expect(first.withdrawals.taxDeferred).toBeCloseTo(bracketCeiling(options.taxSchedule, options.fillBracketRate));
+    expect(first.withdrawals.taxable).toBeGreaterThan(0);
+    expect(first.withdrawals.roth).toBe(0);
+  });
+});
+
+describe("withdrawalTax", () => {
+  it("taxes tax-deferred draws and benefits as income and taxable draws on their gains", () => {
+    const draws = { taxable: 20000, taxDeferred: 30000, roth: 10000 };
+    const tax = withdrawalTax(draws, 10000, options, 1);
+    const ordinary = 30000 + 10000 * options.taxSchedule.benefitTaxableShare;
+    const gains = 20000 * (1 - options.taxableBasisShare);
+    expect(tax).toBeCloseTo(ordinaryIncomeTax(ordinary, options.taxSchedule) + gains * options.taxSchedule.capitalGainsRate);
+  });
+});
+
+describe("compareWithdrawalOrders", () => {
+  it("runs the plan under every ordering", () => {
+    const results = compareWithdrawalOrders(inputs, options);
+    for (const ordering of WITHDRAWAL_ORDERINGS) {
+      expect(results[ordering]).toEqual(simulateWithdrawalOrder(inputs, ordering, options));
+    }
+  });
+});
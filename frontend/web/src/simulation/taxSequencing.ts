@@ -0,0 +1,292 @@
+// taxSequencing.ts
+// Multi-account projection that compares the order in which taxable,
+// tax-deferred and Roth accounts are drawn down, net of income taxes.
+
+import { ACCOUNT_TYPES, AccountBalances, totalBalance } from "./accounts";
+import { incomeAtAge } from "./income";
+import {
+  DEFAULT_RETIREMENT_AGE,
+  ProjectionInputs,
+  expectedInflation,
+  expectedReturns,
+  healthcareExpense,
+  lumpExpense,
+  planIncomeStreams,
+  spendingScale
+} from "./projection";
+import { DEFAULT_RMD_START_AGE, requiredMinimumDistribution } from "./rmd";
+import { SINGLE_TAX_SCHEDULE, TaxSchedule, bracketCeiling, ordinaryIncomeTax } from "./taxes";
+import { createWithdrawalPolicy } from "./withdrawal";
+
+export type WithdrawalOrdering = "conventional" | "proportional" | "bracketFilling";
+
+export const WITHDRAWAL_ORDERINGS: WithdrawalOrdering[] = ["conventional", "proportional", "bracketFilling"];
+
+export const ORDERING_LABELS: Record<WithdrawalOrdering, string> = {
+  conventional: "Conventional (taxable, tax-deferred, Roth)",
+  proportional: "Proportional",
+  bracketFilling: "Bracket-filling"
+};
+
+export interface SequencingOptions {
+  accounts: AccountBalances;
+  taxSchedule: TaxSchedule;
+  fillBracketRate: number; // bracket-filling draws tax-deferred money up to the top of this bracket
+  taxableBasisShare: number; // share of taxable-account withdrawals that is cost basis
+  returns?: number[]; // defaults to the plan's expected returns
+  inflation?: number[]; // defaults to the plan's expected inflation
+  conversion?: RothConversionRule;
+}
+
+// Converts tax-deferred money to Roth each year until stopAge, filling
+// ordinary income up to the top of the given bracket
+export interface RothConversionRule {
+  bracketRate: number;
+  stopAge: number;
+}
+
+export const DEFAULT_SEQUENCING: Omit<SequencingOptions, "accounts"> = {
+  taxSchedule: SINGLE_TAX_SCHEDULE,
+  fillBracketRate: 0.12,
+  taxableBasisShare: 0.5
+};
+
+export interface SequencingYear {
+  year: number;
+  age: number;
+  withdrawals: AccountBalances;
+  requiredDistribution: number;
+  otherIncome: number;
+  rothConversion: number;
+  tax: number; // includes tax on the Roth conversion
+  afterTaxIncome: number; // withdrawals plus other income, less tax
+  realAfterTaxIncome: number; // in today's money
+  endBalances: AccountBalances;
+}
+
+export interface SequencingResult {
+  ordering: WithdrawalOrdering;
+  years: SequencingYear[];
+  lifetimeTaxes: number;
+  totalAfterTaxIncome: number;
+  totalRealAfterTaxIncome: number;
+  endingBalance: number;
+  depletionYear: number | null;
+}
+
+const emptyBalances = (): AccountBalances => ({ taxable: 0, taxDeferred: 0, roth: 0 });
+
+// Takes up to `amount` from the accounts in the given order
+const drawInOrder = (
+  amount: number,
+  order: (keyof AccountBalances)[],
+  available: AccountBalances,
+  draws: AccountBalances
+) => {
+  let remaining = amount;
+  for (const account of order) {
+    const take = Math.min(remaining, available[account] - draws[account]);
+    if (take <= 0) continue;
+    draws[account] += take;
+    remaining -= take;
+  }
+  return remaining;
+};
+
+// Splits a gross withdrawal across accounts according to the ordering; the
+// required distribution always comes out of the tax-deferred account first
+function allocateWithdrawal(
+  gross: number,
+  ordering: WithdrawalOrdering,
+  balances: AccountBalances,
+  requiredDistribution: number,
+  bracketRoom: number
+): AccountBalances {
+  const draws = emptyBalances();
+  draws.taxDeferred = Math.min(requiredDistribution, balances.taxDeferred, gross);
+  let remaining = gross - draws.taxDeferred;
+
+  switch (ordering) {
+    case "conventional":
+      drawInOrder(remaining, ["taxable", "taxDeferred", "roth"], balances, draws);
+      break;
+    case "proportional": {
+      const left = ACCOUNT_TYPES.reduce((total, a) => total + balances[a] - draws[a], 0);
+      if (left > 0) {
+        for (const account of ACCOUNT_TYPES) {
+          draws[account] += remaining * ((balances[account] - draws[account]) / left);
+        }
+      }
+      break;
+    }
+    case "bracketFilling": {
+      const fill = Math.min(remaining, Math.max(0, bracketRoom - draws.taxDeferred));
+      remaining -= fill - drawInOrder(fill, ["taxDeferred"], balances, draws);
+      drawInOrder(remaining, ["taxable", "roth", "taxDeferred"], balances, draws);
+      break;
+    }
+  }
+  return draws;
+}
+
+export function withdrawalTax(
+  draws: AccountBalances,
+  otherIncome: number,
+  options: Pick<SequencingOptions, "taxSchedule" | "taxableBasisShare">,
+  priceLevel: number,
+  extraOrdinaryIncome = 0
+): number {
+  const schedule = options.taxSchedule;
+  const ordinary = draws.taxDeferred + otherIncome * schedule.benefitTaxableShare + extraOrdinaryIncome;
+  const gains = draws.taxable * (1 - options.taxableBasisShare);
+  return ordinaryIncomeTax(ordinary, schedule, priceLevel) + gains * schedule.capitalGainsRate;
+}
+
+export function simulateWithdrawalOrder(
+  inputs: ProjectionInputs,
+  ordering: WithdrawalOrdering,
+  options: SequencingOptions
+): SequencingResult {
+  const horizon = inputs.horizonYears;
+  const returns = options.returns ?? expectedReturns(inputs);
+  const inflation = options.inflation ?? expectedInflation(inputs);
+  const startAge = inputs.startAge ?? DEFAULT_RETIREMENT_AGE;
+  const rmdStartAge = inputs.rmd?.startAge ?? DEFAULT_RMD_START_AGE;
+  const incomeStreams = planIncomeStreams(inputs);
+  const policy = createWithdrawalPolicy({ ...inputs, startingAssets: totalBalance(options.accounts) });
+
+  // An annuity premium is paid pro rata from every account
+  const retained = 1 - (inputs.annuity ? Math.min(1, Math.max(0, inputs.annuity.allocation)) : 0);
+  const years: SequencingYear[] = [];
+  let balances: AccountBalances = {
+    taxable: options.accounts.taxable * retained,
+    taxDeferred: options.accounts.taxDeferred * retained,
+    roth: options.accounts.roth * retained
+  };
+  let priceLevel = 1;
+  let lifetimeTaxes = 0;
+  let totalAfterTaxIncome = 0;
+  let totalRealAfterTaxIncome = 0;
+  let depletionYear: number | null = null;
+
+  for (let t = 0; t < horizon; t++) {
+    const age = startAge + t;
+    const total = totalBalance(balances);
+    const otherIncome = incomeAtAge(incomeStreams, age, priceLevel);
+    const target = healthcareExpense(inputs, age) + lumpExpense(inputs, age, priceLevel) + policy.nextWithdrawal({
+      year: t + 1,
+      balance: total,
+      priceLevel,
+      otherIncome,
+      spendingScale: spendingScale(inputs, age),
+      previousReturn: t > 0 ? returns[t - 1] ?? 0 : 0,
+      previousInflation: t > 0 ? inflation[t - 1] ?? 0 : 0,
+      yearsRemaining: horizon - t
+    });
+    const requiredDistribution = requiredMinimumDistribution(age, balances.taxDeferred, rmdStartAge);
+    const bracketRoom = Math.max(
+      0,
+      bracketCeiling(options.taxSchedule, options.fillBracketRate, priceLevel) -
+        otherIncome * options.taxSchedule.benefitTaxableShare
+    );
+
+    const allocate = (gross: number) =>
+      allocateWithdrawal(gross, ordering, balances, requiredDistribution, bracketRoom);
+    const netOf = (draws: AccountBalances, conversion: number) =>
+      totalBalance(draws) - withdrawalTax(draws, otherIncome, options, priceLevel, conversion);
+
+    // Find the gross withdrawal whose after-tax amount covers the target
+    const solveDraws = (conversion: number) => {
+      let low = Math.min(requiredDistribution, balances.taxDeferred);
+      let high = total;
+      if (netOf(allocate(high), conversion) <= target) return allocate(high);
+      for (let i = 0; i < 60; i++) {
+        const mid = (low + high) / 2;
+        if (netOf(allocate(mid), conversion) >= target) high = mid;
+        else low = mid;
+      }
+      return allocate(high);
+    };
+
+    let draws = solveDraws(0);
+    let rothConversion = 0;
+    const conversion = options.conversion;
+    if (conversion && age < conversion.stopAge) {
+      // Room left in the conversion bracket, and in the account, beside a year's withdrawals
+      const conversionRoom = (yearDraws: AccountBalances) => Math.max(0, Math.min(
+        bracketCeiling(options.taxSchedule, conversion.bracketRate, priceLevel) -
+          yearDraws.taxDeferred - otherIncome * options.taxSchedule.benefitTaxableShare,
+        balances.taxDeferred - yearDraws.taxDeferred
+      ));
+      // Paying the conversion's tax takes a larger withdrawal, which can use up
+      // bracket room too; find the largest conversion that fits beside its own withdrawal
+      let low = 0;
+      let high = conversionRoom(draws);
+      for (let i = 0; i < 40 && high > 0; i++) {
+        const mid = (low + high) / 2;
+        if (conversionRoom(solveDraws(mid)) >= mid) low = mid;
+        else high = mid;
+      }
+      rothConversion = low;
+      if (rothConversion > 0) draws = solveDraws(rothConversion);
+    }
+
+    const tax = withdrawalTax(draws, otherIncome, options, priceLevel, rothConversion);
+    const afterTaxIncome = totalBalance(draws) + otherIncome - tax;
+    if (depletionYear === null && netOf(draws, rothConversion) < target - 0.01) {
+      depletionYear = t + 1;
+    }
+
+    const remaining = emptyBalances();
+    for (const account of ACCOUNT_TYPES) {
+      remaining[account] = balances[account] - draws[account];
+    }
+    remaining.taxDeferred -= rothConversion;
+    remaining.roth += rothConversion;
+
+    const endBalances = emptyBalances();
+    for (const account of ACCOUNT_TYPES) {
+      endBalances[account] = Math.max(0, remaining[account] * (1 + (returns[t] ?? 0)));
+    }
+
+    years.push({
+      year: t + 1,
+      age,
+      withdrawals: draws,
+      requiredDistribution,
+      otherIncome,
+      rothConversion,
+      tax,
+      afterTaxIncome,
+      realAfterTaxIncome: afterTaxIncome / priceLevel,
+      endBalances
+    });
+
+    lifetimeTaxes += tax;
+    totalAfterTaxIncome += afterTaxIncome;
+    totalRealAfterTaxIncome += afterTaxIncome / priceLevel;
+    balances = endBalances;
+    priceLevel *= 1 + (inflation[t] ?? 0);
+  }
+
+  return {
+    ordering,
+    years,
+    lifetimeTaxes,
+    totalAfterTaxIncome,
+    totalRealAfterTaxIncome,
+    endingBalance: totalBalance(balances),
+    depletionYear
+  };
+}
+
+export function compareWithdrawalOrders(
+  inputs: ProjectionInputs,
+  options: SequencingOptions
+): Record<WithdrawalOrdering, SequencingResult> {
+  const results = {} as Record<WithdrawalOrdering, SequencingResult>;
+  for (const ordering of WITHDRAWAL_ORDERINGS) {
+    results[ordering] = simulateWithdrawalOrder(inputs, ordering, options);
+  }
+  return results;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { SINGLE_TAX_SCHEDULE, bracketCeiling, marginalRate, ordinaryIncomeTax } from "./taxes";
+
+describe("ordinaryIncomeTax", () => {
+  it("is zero up to the standard deduction", () => {
+    expect(ordinaryIncomeTax(14600, SINGLE_TAX_SCHEDULE)).toBe(0);
+  });
+
+  it("taxes each slice of income at its bracket's rate", () => {
+    // 11600 at 10%, then 8400 at 12%
+    expect(ordinaryIncomeTax(14600 + 20000, SINGLE_TAX_SCHEDULE)).toBeCloseTo(1160 + 1008);
+  });
+
+  it("scales the deduction and brackets with the price level", () => {
+    expect(ordinaryIncomeTax(2 * 34600, SINGLE_TAX_SCHEDULE, 2)).toBeCloseTo(2 * ordinaryIncomeTax(34600, SINGLE_TAX_SCHEDULE));
+  });
+});
+
+describe("bracketCeiling", () => {
+  it("is gross income at the top of the bracket, deduction included", () => {
+    expect(bracketCeiling(SINGLE_TAX_SCHEDULE, 0.12)).toBe(47150 + 14600);
+    expect(bracketCeiling(SINGLE_TAX_SCHEDULE, 0.12, 1.5)).toBeCloseTo((47150 + 14600) * 1.5);
+  });
+
+  it("is unbounded for the top bracket or an unknown rate", () => {
+    expect(bracketCeiling(SINGLE_TAX_SCHEDULE, 0.37)).toBe(Infinity);
+    expect(bracketCeiling(SINGLE_TAX_SCHEDULE, 0.5)).toBe(Infinity);
+  });
+});
+
+describe("marginalRate", () => {
+  it("is the rate on the next dollar of income", () => {
+    expect(marginalRate(10000, SINGLE_TAX_SCHEDULE)).toBe(0);
+    expect(marginalRate(14600 + 50000, SINGLE_TAX_SCHEDULE)).toBe(0.22);
+    expect(marginalRate(14600 + 1000000, SINGLE_TAX_SCHEDULE)).toBe(0.37);
+  });
+});
@@ -0,0 +1,81 @@
+// taxes.ts
+// Progressive income tax schedules. Thresholds are in today's money and are
+// scaled by the price level in later years, as bracket indexing would.
+
+export interface TaxBracket {
+  upTo: number | null; // top of the bracket in taxable income; null for the last one
+  rate: number;
+}
+
+export interface TaxSchedule {
+  name: string;
+  standardDeduction: number;
+  brackets: TaxBracket[];
+  capitalGainsRate: number; // flat rate on realized gains from taxable accounts
+  benefitTaxableShare: number; // share of benefit income treated as ordinary income
+}
+
+export const SINGLE_TAX_SCHEDULE: TaxSchedule = {
+  name: "Single (2024)",
+  standardDeduction: 14600,
+  brackets: [
+    { upTo: 11600, rate: 0.1 },
+    { upTo: 47150, rate: 0.12 },
+    { upTo: 100525, rate: 0.22 },
+    { upTo: 191950, rate: 0.24 },
+    { upTo: 243725, rate: 0.32 },
+    { upTo: 609350, rate: 0.35 },
+    { upTo: null, rate: 0.37 }
+  ],
+  capitalGainsRate: 0.15,
+  benefitTaxableShare: 0.85
+};
+
+export const JOINT_TAX_SCHEDULE: TaxSchedule = {
+  name: "Married filing jointly (2024)",
+  standardDeduction: 29200,
+  brackets: [
+    { upTo: 23200, rate: 0.1 },
+    { upTo: 94300, rate: 0.12 },
+    { upTo: 201050, rate: 0.22 },
+    { upTo: 383900, rate: 0.24 },
+    { upTo: 487450, rate: 0.32 },
+    { upTo: 731200, rate: 0.35 },
+    { upTo: null, rate: 0.37 }
+  ],
+  capitalGainsRate: 0.15,
+  benefitTaxableShare: 0.85
+};
+
+export const TAX_SCHEDULES = [SINGLE_TAX_SCHEDULE, JOINT_TAX_SCHEDULE];
+
+// Tax on ordinary income after the standard deduction
+export function ordinaryIncomeTax(income: number, schedule: TaxSchedule, priceLevel = 1): number {
+  let taxable = Math.max(0, income - schedule.standardDeduction * priceLevel);
+  let tax = 0;
+  let floor = 0;
+
+  for (const bracket of schedule.brackets) {
+    const ceiling = bracket.upTo === null ? Infinity : bracket.upTo * priceLevel;
+    const inBracket = Math.min(taxable, ceiling - floor);
+    if (inBracket <= 0) break;
+    tax += inBracket * bracket.rate;
+    taxable -= inBracket;
+    floor = ceiling;
+  }
+  return tax;
+}
+
+// Gross ordinary income at which the given bracket rate is used up
+export function bracketCeiling(schedule: TaxSchedule, rate: number, priceLevel = 1): number {
+  const bracket = schedule.brackets.find(b => b.rate === rate);
+  if (!bracket || bracket.upTo === null) return Infinity;
+  return (bracket.upTo + schedule.standardDeduction) * priceLevel;
+}
+
+export function marginalRate(income: number, schedule: TaxSchedule, priceLevel = 1): number {
+  const taxable = income - schedule.standardDeduction * priceLevel;
+  if (taxable <= 0) return 0;
+  const bracket = schedule.brackets.find(b => b.upTo === null || taxable <= b.upTo * priceLevel);
+  return bracket ? bracket.rate : 0;
+}
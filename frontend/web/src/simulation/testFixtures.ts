@@ -0,0 +1,20 @@
+// testFixtures.ts
+// Plan and simulation settings shared by the simulation tests; tests override
+// only the fields they exercise.
+
+import { DEFAULT_SEED, DEFAULT_VOLATILITY, MonteCarloOptions } from "./monteCarlo";
+import { ProjectionInputs } from "./projection";
+
+export const baseInputs: ProjectionInputs = {
+  startingAssets: 1000000,
+  annualSpending: 45000,
+  returnRate: 0.05,
+  inflationRate: 0.025,
+  horizonYears: 30
+};
+
+export const monteCarloOptions: MonteCarloOptions = {
+  trials: 500,
+  seed: DEFAULT_SEED,
+  distribution: { type: "lognormal", mean: 0.05, volatility: DEFAULT_VOLATILITY }
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VPW, createVpwPolicy, vpwExpectedReturn, vpwRate } from "./vpw";
+import { WithdrawalContext } from "./withdrawal";
+
+const ctx: WithdrawalContext = {
+  year: 1,
+  balance: 1000000,
+  priceLevel: 1,
+  otherIncome: 0,
+  spendingScale: 1,
+  previousReturn: 0,
+  previousInflation: 0,
+  yearsRemaining: 30
+};
+
+describe("createVpwPolicy", () => {
+  it("withdraws the VPW rate of the balance", () => {
+    const rate = vpwRate(30, vpwExpectedReturn(DEFAULT_VPW));
+    expect(createVpwPolicy(DEFAULT_VPW).nextWithdrawal(ctx)).toBeCloseTo(1000000 * rate);
+  });
+
+  it("scales the payment by the plan's spending profile", () => {
+    const policy = createVpwPolicy(DEFAULT_VPW);
+    const full = policy.nextWithdrawal(ctx);
+    expect(policy.nextWithdrawal({ ...ctx, spendingScale: 0.8 })).toBeCloseTo(full * 0.8);
+  });
+});
@@ -0,0 +1,63 @@
+// vpw.ts
+// Variable Percentage Withdrawal: each year withdraw the level payment that
+// would exhaust the portfolio exactly at the end age, given the expected real
+// return of the asset allocation, scaled by the plan's spending profile.
+
+import { WithdrawalContext, WithdrawalPolicy } from "./withdrawal";
+
+export interface VpwConfig {
+  stockAllocation: number; // remainder is held in bonds
+  stockReturn: number; // expected real return of stocks
+  bondReturn: number; // expected real return of bonds
+}
+
+export const DEFAULT_VPW: VpwConfig = {
+  stockAllocation: 0.6,
+  stockReturn: 0.05,
+  bondReturn: 0.019
+};
+
+export function vpwExpectedReturn(config: VpwConfig): number {
+  return config.stockAllocation * config.stockReturn + (1 - config.stockAllocation) * config.bondReturn;
+}
+
+// Share of the balance to withdraw at the start of a year with yearsRemaining
+// years left, as a beginning-of-period annuity payment
+export function vpwRate(yearsRemaining: number, expectedReturn: number): number {
+  if (yearsRemaining <= 1) return 1;
+  if (expectedReturn === 0) return 1 / yearsRemaining;
+  const annuityFactor = (1 - Math.pow(1 + expectedReturn, -yearsRemaining)) / expectedReturn;
+  return 1 / (annuityFactor * (1 + expectedReturn));
+}
+
+export interface VpwTableRow {
+  age: number;
+  rates: number[]; // one per requested stock allocation
+}
+
+// Withdrawal percentages by age and stock allocation for a plan ending at endAge
+export function buildVpwTable(
+  startAge: number,
+  endAge: number,
+  allocations: number[],
+  config: VpwConfig = DEFAULT_VPW,
+  step = 5
+): VpwTableRow[] {
+  const rows: VpwTableRow[] = [];
+  for (let age = startAge; age < endAge; age += step) {
+    rows.push({
+      age,
+      rates: allocations.map(stockAllocation =>
+        vpwRate(endAge - age, vpwExpectedReturn({ ...config, stockAllocation }))
+      )
+    });
+  }
+  return rows;
+}
+
+export function createVpwPolicy(config: VpwConfig): WithdrawalPolicy {
+  const expectedReturn = vpwExpectedReturn(config);
+  return {
+    nextWithdrawal: (ctx: WithdrawalContext) => ctx.balance * vpwRate(ctx.yearsRemaining, expectedReturn) * ctx.spendingScale
+  };
+}
@@ -0,0 +1,56 @@
+// withdrawal.ts
+// Withdrawal strategies decide how much to take from the portfolio each year.
+// A strategy is stored with the plan as plain config; a fresh policy is created
+// from it for every simulated path so stateful rules start clean. The
+// inflation-adjusted and guardrails strategies are spending targets and net
+// other income off them; VPW sizes the portfolio draw on its own. The
+// bucket strategy spends like the inflation-adjusted one; the projection
+// takes the money from cash, bond and equity buckets that each earn their own
+// return (see bucketPortfolio.ts).
+
+import { BucketConfig } from "./buckets";
+import { GuardrailsConfig, createGuardrailsPolicy } from "./guardrails";
+import { ProjectionInputs } from "./projection";
+import { VpwConfig, createVpwPolicy } from "./vpw";
+
+export type WithdrawalStrategy =
+  | { kind: "inflationAdjusted" }
+  | ({ kind: "guardrails" } & GuardrailsConfig)
+  | ({ kind: "vpw" } & VpwConfig)
+  | ({ kind: "bucket" } & BucketConfig);
+
+export interface WithdrawalContext {
+  year: number; // 1-based
+  balance: number; // start-of-year balance before the withdrawal
+  priceLevel: number; // cumulative inflation since the plan started
+  otherIncome: number; // nominal non-portfolio income this year
+  spendingScale: number; // share of planned spending needed this year, e.g. after a death in the household
+  previousReturn: number; // last year's portfolio return (0 in year 1)
+  previousInflation: number; // last year's inflation (0 in year 1)
+  yearsRemaining: number; // including the current year
+}
+
+export interface WithdrawalPolicy {
+  // Nominal amount the strategy wants to withdraw this year
+  nextWithdrawal(ctx: WithdrawalContext): number;
+}
+
+export const INFLATION_ADJUSTED: WithdrawalStrategy = { kind: "inflationAdjusted" };
+
+export function createWithdrawalPolicy(inputs: ProjectionInputs): WithdrawalPolicy {
+  const strategy = inputs.strategy ?? INFLATION_ADJUSTED;
+
+  switch (strategy.kind) {
+    case "guardrails":
+      return createGuardrailsPolicy(strategy, inputs.annualSpending);
+    case "vpw":
+      return createVpwPolicy(strategy);
+    case "bucket":
+    case "inflationAdjusted":
+    default:
+      return {
+        nextWithdrawal: (ctx) =>
+          Math.max(0, inputs.annualSpending * ctx.priceLevel * ctx.spendingScale - ctx.otherIncome)
+      };
+  }
+}
@@ -0,0 +1,14 @@
+// src/type/plan.ts
+import { CashflowProjection, ProjectionInputs } from "../simulation/projection";
+
+export interface RetirementPlan {
+  id: string;
+  encryptedAssets: string;
+  retirementGoal: string;
+  withdrawalStrategy: string;
+  cashflowProjection: CashflowProjection | string; // legacy plans store a text summary
+  assumptions?: ProjectionInputs;
+  timestamp: number;
+  owner: string;
+  status: "pending" | "active" | "archived";
+}